@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashPassword, verifyPassword, PBKDF2_ITERATIONS } from '@/lib/crypto'
+import { getUser, updateUserCredential } from '@/lib/server/store'
+import { startSession } from '@/lib/server/session'
+
+export async function POST(request: NextRequest) {
+  const { email, password } = await request.json().catch(() => ({}))
+
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return NextResponse.json({ error: 'Please enter both email and password' }, { status: 400 })
+  }
+
+  const user = await getUser(email)
+  if (!user) {
+    return NextResponse.json({ error: 'No account found with this email. Please register.' }, { status: 404 })
+  }
+
+  if (!(await verifyPassword(password, user.credential))) {
+    return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+  }
+
+  // Bring older hashes up to the current work factor
+  if (user.credential.iterations < PBKDF2_ITERATIONS) {
+    await updateUserCredential(user.email, await hashPassword(password))
+  }
+
+  const response = NextResponse.json({ email: user.email })
+  await startSession(response, user.email)
+  return response
+}
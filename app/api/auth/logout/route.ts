@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { endSession } from '@/lib/server/session'
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ ok: true })
+  await endSession(request, response)
+  return response
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashPassword } from '@/lib/crypto'
+import { createUser } from '@/lib/server/store'
+import { startSession } from '@/lib/server/session'
+
+export async function POST(request: NextRequest) {
+  const { email, password } = await request.json().catch(() => ({}))
+
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return NextResponse.json({ error: 'Please fill in all fields' }, { status: 400 })
+  }
+
+  if (password.length < 6) {
+    return NextResponse.json({ error: 'Password must be at least 6 characters' }, { status: 400 })
+  }
+
+  const user = await createUser(email, await hashPassword(password))
+  if (!user) {
+    return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 })
+  }
+
+  const response = NextResponse.json({ email: user.email })
+  await startSession(response, user.email)
+  return response
+}
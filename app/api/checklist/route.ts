@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAccountChecklists, saveChecklist } from '@/lib/server/store'
+import { getSessionEmail } from '@/lib/server/session'
+import { parseTaxYear, parseTaxpayerId } from '@/lib/checklist'
+import type { ChecklistIndexEntry } from '@/lib/api'
+
+// Lists every checklist the account has saved, and returns the one asked for
+// by taxpayerId and taxYear if any
+export async function GET(request: NextRequest) {
+  const email = await getSessionEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const taxpayerId = parseTaxpayerId(searchParams.get('taxpayerId'))
+  const taxYear = parseTaxYear(searchParams.get('taxYear'))
+  const entries = await listAccountChecklists(email)
+
+  const checklists: ChecklistIndexEntry[] = entries.map(entry => ({
+    taxpayerId: entry.taxpayerId,
+    taxYear: entry.taxYear,
+    lastSaved: entry.checklist.lastSaved,
+    name: entry.checklist.data?.clientInfo?.name || ''
+  }))
+  const match = entries.find(entry => entry.taxpayerId === taxpayerId && entry.taxYear === taxYear)
+
+  return NextResponse.json({
+    checklist: match
+      ? { lastSaved: match.checklist.lastSaved, revision: match.checklist.revision || 0, data: match.checklist.data }
+      : null,
+    checklists
+  })
+}
+
+export async function PUT(request: NextRequest) {
+  const email = await getSessionEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { baseRevision, lastSaved, data } = await request.json().catch(() => ({}))
+  const taxpayerId = parseTaxpayerId(data?.taxpayerId)
+  const taxYear = parseTaxYear(data?.taxYear)
+  if (
+    !Number.isInteger(baseRevision) || baseRevision < 0 || typeof lastSaved !== 'string' ||
+    !data || typeof data !== 'object' || !taxpayerId || !taxYear
+  ) {
+    return NextResponse.json({ error: 'Invalid checklist payload' }, { status: 400 })
+  }
+
+  // Never let a copy from a device that is behind replace newer work
+  const result = await saveChecklist(email, taxpayerId, taxYear, baseRevision, { lastSaved, data })
+  if (!result.saved) {
+    const { lastSaved: existingSaved, revision, data: existingData } = result.existing
+    return NextResponse.json({
+      error: 'A newer copy is already saved',
+      checklist: { lastSaved: existingSaved, revision: revision || 0, data: existingData }
+    }, { status: 409 })
+  }
+  return NextResponse.json({ ok: true, revision: result.revision })
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checklistId, getDocument, saveDocument } from '@/lib/server/store'
+import { getSessionEmail } from '@/lib/server/session'
+import { createHash } from 'crypto'
+
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ hash: string }> }) {
+  const email = await getSessionEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { hash } = await params
+  const document = await getDocument(checklistId(email), hash)
+  if (!document) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(document), {
+    headers: { 'Content-Type': 'application/octet-stream', 'Cache-Control': 'private, no-store' }
+  })
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ hash: string }> }) {
+  const email = await getSessionEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { hash } = await params
+  const bytes = Buffer.from(await request.arrayBuffer())
+  if (bytes.length > MAX_DOCUMENT_BYTES) {
+    return NextResponse.json({ error: 'Document is too large' }, { status: 413 })
+  }
+
+  // The name is the content hash, so refuse anything that doesn't match it
+  if (createHash('sha256').update(bytes).digest('hex') !== hash) {
+    return NextResponse.json({ error: 'Document does not match its hash' }, { status: 400 })
+  }
+
+  await saveDocument(email, hash, bytes)
+  return NextResponse.json({ ok: true })
+}
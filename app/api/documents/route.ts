@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listDocumentHashes } from '@/lib/server/store'
+import { getSessionEmail } from '@/lib/server/session'
+
+export async function GET(request: NextRequest) {
+  const email = await getSessionEmail(request)
+  if (!email) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  return NextResponse.json({ hashes: await listDocumentHashes(email) })
+}
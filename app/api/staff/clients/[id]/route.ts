@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getChecklistById, getDocument } from '@/lib/server/store'
+import { getSessionEmail } from '@/lib/server/session'
+import { migrateChecklistData, MigrationContext } from '@/lib/migrations'
+import { listChecklistFiles, parseTaxYear, parseTaxpayerId } from '@/lib/checklist'
+import { isEmbeddableType } from '@/lib/documents'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const staffEmail = await getSessionEmail(request, 'staff')
+  if (!staffEmail) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const taxpayerId = parseTaxpayerId(request.nextUrl.searchParams.get('taxpayerId'))
+  const taxYear = parseTaxYear(request.nextUrl.searchParams.get('taxYear'))
+  const checklist = taxpayerId && taxYear ? await getChecklistById(id, taxpayerId, taxYear) : null
+  if (!checklist) {
+    return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+  }
+
+  // Older clients may have synced an earlier schema with documents inline
+  const context: MigrationContext = { legacyDocuments: new Map(), blobs: new Map() }
+  const data = await migrateChecklistData(checklist.data, context)
+
+  // Documents go back as data URLs keyed by hash, ready to embed in the report
+  const documents: Record<string, string> = {}
+  for (const file of listChecklistFiles(data)) {
+    if (documents[file.hash] || !isEmbeddableType(file.type)) continue
+    const inline = context.blobs.get(file.hash)
+    const bytes = inline ? Buffer.from(await inline.arrayBuffer()) : await getDocument(id, file.hash)
+    if (bytes) {
+      documents[file.hash] = `data:${file.type};base64,${bytes.toString('base64')}`
+    }
+  }
+
+  return NextResponse.json({ checklist: { ...checklist, data }, documents })
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listChecklists } from '@/lib/server/store'
+import { getSessionEmail } from '@/lib/server/session'
+import { parseStepId } from '@/lib/steps'
+import type { ClientSummary } from '@/lib/api'
+
+export async function GET(request: NextRequest) {
+  const staffEmail = await getSessionEmail(request, 'staff')
+  if (!staffEmail) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const clients: ClientSummary[] = []
+  for (const { id, taxpayerId, taxYear, checklist } of await listChecklists()) {
+    const data = checklist.data || {}
+    clients.push({
+      id,
+      taxpayerId,
+      taxYear,
+      email: checklist.email || data.clientInfo?.email || '',
+      clientName: data.clientInfo?.name || '',
+      currentStep: parseStepId(data.currentStep),
+      lastSaved: checklist.lastSaved,
+      referenceId: data.submissionMetadata?.referenceId || null,
+      submittedAt: data.submissionMetadata?.timestamp || null,
+      incomeCount: data.incomeData?.length || 0,
+      adjustmentCount: data.adjustmentData?.length || 0,
+      creditCount: data.creditData?.length || 0
+    })
+  }
+
+  clients.sort((a, b) => b.lastSaved.localeCompare(a.lastSaved))
+  return NextResponse.json({ staffEmail, clients })
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashPassword, verifyPassword, PBKDF2_ITERATIONS } from '@/lib/crypto'
+import { getUser, updateUserCredential } from '@/lib/server/store'
+import { startSession } from '@/lib/server/session'
+
+export async function POST(request: NextRequest) {
+  const { email, password } = await request.json().catch(() => ({}))
+
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return NextResponse.json({ error: 'Please enter both email and password' }, { status: 400 })
+  }
+
+  // Same message for unknown staff and wrong password; staff emails aren't public
+  const user = await getUser(email, 'staff')
+  if (!user || !(await verifyPassword(password, user.credential))) {
+    return NextResponse.json({ error: 'Incorrect email or password' }, { status: 401 })
+  }
+
+  if (user.credential.iterations < PBKDF2_ITERATIONS) {
+    await updateUserCredential(user.email, await hashPassword(password), 'staff')
+  }
+
+  const response = NextResponse.json({ email: user.email })
+  await startSession(response, user.email, 'staff')
+  return response
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashPassword } from '@/lib/crypto'
+import { createUser } from '@/lib/server/store'
+import { startSession } from '@/lib/server/session'
+
+// Staff accounts can only be created with the firm's invite code, so the
+// dashboard stays closed unless STAFF_INVITE_CODE is configured
+export async function POST(request: NextRequest) {
+  const { email, password, inviteCode } = await request.json().catch(() => ({}))
+
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return NextResponse.json({ error: 'Please fill in all fields' }, { status: 400 })
+  }
+
+  const expectedCode = process.env.STAFF_INVITE_CODE
+  if (!expectedCode || inviteCode !== expectedCode) {
+    return NextResponse.json({ error: 'Invalid invite code' }, { status: 403 })
+  }
+
+  if (password.length < 10) {
+    return NextResponse.json({ error: 'Staff passwords must be at least 10 characters' }, { status: 400 })
+  }
+
+  const user = await createUser(email, await hashPassword(password), 'staff')
+  if (!user) {
+    return NextResponse.json({ error: 'A staff account with this email already exists' }, { status: 409 })
+  }
+
+  const response = NextResponse.json({ email: user.email })
+  await startSession(response, user.email, 'staff')
+  return response
+}
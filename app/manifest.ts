@@ -0,0 +1,20 @@
+import type { MetadataRoute } from 'next'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Personal Tax Checklist',
+    short_name: 'Tax Checklist',
+    description: 'Gather the information and documents for your tax return, online or offline',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f0fdf4',
+    theme_color: '#2563eb',
+    icons: [
+      {
+        src: '/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml'
+      }
+    ]
+  }
+}
@@ -0,0 +1,374 @@
+// filename: app/staff/page.tsx
+"use client"
+
+import React, { useState, useEffect, useRef } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, RefreshCw, User, Printer, Search } from 'lucide-react'
+import {
+  apiStaffLogin, apiStaffRegister, apiStaffLogout, fetchStaffClients, fetchStaffClient, ClientSummary
+} from '@/lib/api'
+import { ChecklistData } from '@/lib/checklist'
+import { STEP_DEFINITIONS, stepTitle } from '@/lib/steps'
+import { generateReportHTML, LOGO_BASE64 } from '@/lib/report'
+
+interface ClientDetail {
+  summary: ClientSummary
+  data: ChecklistData
+  documents: Record<string, string>
+}
+
+const formatDateTime = (value: string | null): string => {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+export default function StaffDashboard() {
+  const [staffEmail, setStaffEmail] = useState('')
+  const [isCheckingSession, setIsCheckingSession] = useState(true)
+  const [isRegistering, setIsRegistering] = useState(false)
+  const [loginEmail, setLoginEmail] = useState('')
+  const [loginPassword, setLoginPassword] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+  const [loginError, setLoginError] = useState('')
+  const [clients, setClients] = useState<ClientSummary[]>([])
+  const [isLoadingClients, setIsLoadingClients] = useState(false)
+  const [filter, setFilter] = useState('')
+  const reportFrameRef = useRef<HTMLIFrameElement>(null)
+  const [selectedClient, setSelectedClient] = useState<ClientDetail | null>(null)
+
+  const loadClients = async () => {
+    setIsLoadingClients(true)
+    try {
+      const result = await fetchStaffClients()
+      if (result.ok) {
+        setStaffEmail(result.data.staffEmail)
+        setClients(result.data.clients)
+      }
+    } catch (error) {
+      console.error('Error loading clients:', error)
+    } finally {
+      setIsLoadingClients(false)
+    }
+  }
+
+  // The staff session lives in an HTTP-only cookie, so probe the API to see
+  // whether we're already signed in
+  useEffect(() => {
+    loadClients().then(() => setIsCheckingSession(false))
+  }, [])
+
+  const handleLogin = async () => {
+    setLoginError('')
+
+    if (!loginEmail || !loginPassword) {
+      setLoginError('Please enter both email and password')
+      return
+    }
+
+    const result = isRegistering
+      ? await apiStaffRegister(loginEmail, loginPassword, inviteCode).catch(() => null)
+      : await apiStaffLogin(loginEmail, loginPassword).catch(() => null)
+
+    if (!result) {
+      setLoginError('Unable to reach the server. Please check your connection.')
+      return
+    }
+    if (!result.ok) {
+      setLoginError(result.data.error || 'Login failed')
+      return
+    }
+
+    setLoginPassword('')
+    setInviteCode('')
+    await loadClients()
+  }
+
+  const handleLogout = async () => {
+    await apiStaffLogout().catch(error => console.error('Error ending session:', error))
+    setStaffEmail('')
+    setClients([])
+    setSelectedClient(null)
+  }
+
+  const openClient = async (summary: ClientSummary) => {
+    const result = await fetchStaffClient(summary.id, summary.taxpayerId, summary.taxYear).catch(() => null)
+    if (!result?.ok) {
+      alert(result?.data.error || 'Unable to load this client')
+      return
+    }
+    setSelectedClient({ summary, data: result.data.checklist.data, documents: result.data.documents || {} })
+  }
+
+  // Prints the report frame itself, so the report never gets a window of
+  // its own that could run script with the staff session
+  const printReport = () => {
+    reportFrameRef.current?.contentWindow?.print()
+  }
+
+  const reportHTML = (client: ClientDetail): string => {
+    return generateReportHTML(client.data, client.data.submissionMetadata || {
+      timestamp: client.summary.lastSaved,
+      referenceId: 'Not yet submitted'
+    }, 'preparer', client.documents)
+  }
+
+  const stepLabel = (step: string): string => {
+    const index = STEP_DEFINITIONS.findIndex(definition => definition.id === step)
+    return index < 0 ? stepTitle(step) : `${index + 1}. ${stepTitle(step)}`
+  }
+
+  const visibleClients = clients.filter(client => {
+    const term = filter.trim().toLowerCase()
+    if (!term) return true
+    return client.email.toLowerCase().includes(term) ||
+      client.clientName.toLowerCase().includes(term) ||
+      (client.referenceId || '').toLowerCase().includes(term) ||
+      String(client.taxYear).includes(term)
+  })
+
+  const renderHeader = () => (
+    <div className="flex justify-between items-center mb-6">
+      <div className="flex items-center gap-3">
+        <img src={LOGO_BASE64} alt="The Books Solution" className="w-12 h-12" />
+        <div>
+          <div className="text-xl font-bold text-[#2C3E21]">The Books Solution</div>
+          <div className="text-sm text-gray-600">Preparer Dashboard</div>
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <User className="w-4 h-4" />
+          <span>{staffEmail}</span>
+        </div>
+        <Button onClick={handleLogout} className="border bg-white hover:bg-gray-50 px-3 py-1.5">
+          Logout
+        </Button>
+      </div>
+    </div>
+  )
+
+  if (isCheckingSession) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+        <div className="w-12 h-12 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (!staffEmail) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <img src={LOGO_BASE64} alt="The Books Solution" className="w-20 h-20 mx-auto mb-4" />
+            <CardTitle className="text-2xl">
+              {isRegistering ? 'Create Staff Account' : 'Staff Login'}
+            </CardTitle>
+            <CardDescription>
+              {isRegistering
+                ? 'Use the invite code provided by your administrator'
+                : 'Review client tax checklists'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="staffEmail">Email Address</Label>
+              <Input
+                id="staffEmail"
+                type="email"
+                value={loginEmail}
+                onChange={(e) => setLoginEmail(e.target.value)}
+                placeholder="preparer@thebookssolution.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staffPassword">Password</Label>
+              <Input
+                id="staffPassword"
+                type="password"
+                value={loginPassword}
+                onChange={(e) => setLoginPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                placeholder="Enter your password"
+              />
+            </div>
+            {isRegistering && (
+              <div className="space-y-2">
+                <Label htmlFor="inviteCode">Invite Code</Label>
+                <Input
+                  id="inviteCode"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  placeholder="Staff invite code"
+                />
+              </div>
+            )}
+            {loginError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                {loginError}
+              </div>
+            )}
+            <Button
+              onClick={handleLogin}
+              className="w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 text-white py-2"
+            >
+              {isRegistering ? 'Create Account' : 'Login'}
+            </Button>
+            <div className="text-center">
+              <button
+                onClick={() => {
+                  setIsRegistering(!isRegistering)
+                  setLoginError('')
+                }}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                {isRegistering ? 'Already have a staff account? Login' : 'Have an invite code? Register'}
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (selectedClient) {
+    const { summary } = selectedClient
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+        <div className="max-w-6xl mx-auto p-4">
+          {renderHeader()}
+          <div className="flex justify-between items-center mb-4">
+            <Button onClick={() => setSelectedClient(null)} className="border bg-white hover:bg-gray-50 px-3 py-1.5">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              All Clients
+            </Button>
+            <Button onClick={printReport} className="border bg-white hover:bg-gray-50 px-3 py-1.5">
+              <Printer className="w-4 h-4 mr-2" />
+              Print Report
+            </Button>
+          </div>
+
+          <Card className="mb-4">
+            <CardHeader>
+              <CardTitle className="text-xl">{summary.clientName || summary.email}</CardTitle>
+              <CardDescription>{summary.email} · Tax year {summary.taxYear}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Current Step</div>
+                <div className="font-medium">{stepLabel(summary.currentStep)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Last Saved</div>
+                <div className="font-medium">{formatDateTime(summary.lastSaved)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Reference ID</div>
+                <div className="font-mono text-xs">{summary.referenceId || 'Not submitted'}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Income / Adjustments / Credits</div>
+                <div className="font-medium">
+                  {summary.incomeCount} / {summary.adjustmentCount} / {summary.creditCount}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Sandboxed without scripts so client-entered text can never run in the
+              staff session; same-origin and modals only let the page print it */}
+          <iframe
+            ref={reportFrameRef}
+            title="Client checklist report"
+            sandbox="allow-same-origin allow-modals"
+            srcDoc={reportHTML(selectedClient)}
+            className="w-full h-[80vh] bg-white rounded-lg border shadow"
+          />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <div className="max-w-6xl mx-auto p-4">
+        {renderHeader()}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <div>
+                <CardTitle className="text-xl">Client Checklists</CardTitle>
+                <CardDescription>
+                  {clients.length} client{clients.length === 1 ? '' : 's'} • {clients.filter(c => c.referenceId).length} submitted
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="relative">
+                  <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+                  <Input
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Search name, email or reference"
+                    className="pl-9 w-72"
+                  />
+                </div>
+                <Button onClick={loadClients} disabled={isLoadingClients} className="border bg-white hover:bg-gray-50 px-3 py-2">
+                  <RefreshCw className={`w-4 h-4 ${isLoadingClients ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {visibleClients.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No client checklists found.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Client</th>
+                    <th className="py-2 pr-4">Tax Year</th>
+                    <th className="py-2 pr-4">Step</th>
+                    <th className="py-2 pr-4">Last Saved</th>
+                    <th className="py-2 pr-4">Reference ID</th>
+                    <th className="py-2 pr-4 text-center">Income</th>
+                    <th className="py-2 pr-4 text-center">Adjustments</th>
+                    <th className="py-2 text-center">Credits</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleClients.map(client => (
+                    <tr
+                      key={`${client.id}-${client.taxpayerId}-${client.taxYear}`}
+                      onClick={() => openClient(client)}
+                      className="border-b hover:bg-green-50 cursor-pointer"
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-900">{client.clientName || '—'}</div>
+                        <div className="text-xs text-gray-500">{client.email}</div>
+                      </td>
+                      <td className="py-2 pr-4">{client.taxYear}</td>
+                      <td className="py-2 pr-4">{stepLabel(client.currentStep)}</td>
+                      <td className="py-2 pr-4">{formatDateTime(client.lastSaved)}</td>
+                      <td className="py-2 pr-4">
+                        {client.referenceId ? (
+                          <span className="font-mono text-xs text-green-700">{client.referenceId}</span>
+                        ) : (
+                          <span className="text-gray-400">In progress</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-center">{client.incomeCount}</td>
+                      <td className="py-2 pr-4 text-center">{client.adjustmentCount}</td>
+                      <td className="py-2 text-center">{client.creditCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import * as React from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Input, InputProps } from '@/components/ui/input';
+
+// Masked by default with a reveal toggle, for SSNs and account numbers
+export const SensitiveInput = React.forwardRef<HTMLInputElement, Omit<InputProps, 'type'>>(({ className, ...props }, ref) => {
+  const [revealed, setRevealed] = React.useState(false);
+  return (
+    <div className='relative'>
+      <Input ref={ref} type={revealed ? 'text' : 'password'} autoComplete='off' spellCheck={false} className={cn('pr-10', className)} {...props} />
+      <button type='button' onClick={() => setRevealed(!revealed)} className='absolute inset-y-0 right-0 flex items-center px-3 text-muted-foreground hover:text-foreground' aria-label={revealed ? 'Hide value' : 'Show value'}>
+        {revealed ? <EyeOff className='h-4 w-4' /> : <Eye className='h-4 w-4' />}
+      </button>
+    </div>
+  );
+});
+SensitiveInput.displayName = 'SensitiveInput';
@@ -0,0 +1,103 @@
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+
+export interface SignaturePadProps {
+  // PNG data URL of the current drawing, or '' when blank
+  value: string;
+  // Called with the drawing when a stroke ends, and with '' when cleared
+  onChange: (value: string) => void;
+  className?: string;
+  'aria-label'?: string;
+}
+
+// Canvas for drawing a signature with a mouse, pen or finger
+export const SignaturePad = ({ value, onChange, className, ...props }: SignaturePadProps) => {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const drawingRef = React.useRef(false);
+  // What the canvas shows, or null before it has been sized
+  const drawnRef = React.useRef<string | null>(null);
+
+  // Size the backing store for the device pixel ratio so strokes stay sharp,
+  // and redraw a saved signature when one is loaded
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || value === drawnRef.current) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawnRef.current = value;
+    if (!value) return;
+
+    const image = new Image();
+    image.onload = () => context.drawImage(image, 0, 0, canvas.offsetWidth, canvas.offsetHeight);
+    image.src = value;
+  }, [value]);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const startStroke = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointAt(event);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const continueStroke = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointAt(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const endStroke = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    drawnRef.current = event.currentTarget.toDataURL('image/png');
+    onChange(drawnRef.current);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    drawnRef.current = '';
+    onChange('');
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <canvas
+        ref={canvasRef}
+        role='img'
+        aria-label={props['aria-label'] || 'Signature pad'}
+        className='w-full h-36 rounded-md border border-input bg-white touch-none cursor-crosshair'
+        onPointerDown={startStroke}
+        onPointerMove={continueStroke}
+        onPointerUp={endStroke}
+        onPointerCancel={endStroke}
+      />
+      <div className='flex justify-between text-xs text-muted-foreground'>
+        <span>Sign above with your mouse, pen or finger</span>
+        <button type='button' onClick={clear} className='hover:text-foreground underline'>
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
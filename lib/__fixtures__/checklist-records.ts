@@ -0,0 +1,115 @@
+// Records as earlier versions of the portal stored them, for the migration
+// tests. Each is the shape that version wrote, not what it migrates to.
+
+// An 8-byte PNG signature, enough to stand in for a scanned document
+export const LEGACY_IMAGE_DATA_URL = 'data:image/png;base64,iVBORw0KGgo='
+
+// Version 1, before encryption: the whole checklist in one userData record,
+// with the plaintext password beside it and files inline as data URLs
+export const V1_PLAINTEXT_RECORD = {
+  email: 'jane@example.com',
+  password: 'hunter2',
+  lastSaved: '2025-02-01T10:00:00.000Z',
+  currentStep: 3,
+  filingJointly: true,
+  clientInfo: {
+    name: 'Jane Doe', dob: '1980-04-12', ssn: '123-45-6789', address: '1 Main St', phone: '555-010-0000',
+    email: 'jane@example.com', dlState: 'CA', dlIssueDate: '2020-01-01', dlExpDate: '2028-01-01', dlNumber: 'D1234567',
+    occupation: 'Engineer'
+  },
+  spouseInfo: {
+    name: 'John Doe', dob: '1979-08-30', ssn: '987-65-4321', address: '', phone: '', email: '',
+    dlState: '', dlIssueDate: '', dlExpDate: '', dlNumber: '', occupation: ''
+  },
+  dependents: [{ id: 'dep-1', name: 'Jimmy Doe', dob: '2015-06-01', ssn: '111-22-3333', relationship: 'Son' }],
+  bankInfo: { bankName: 'First Bank', accountNumber: '000123456789', routingNumber: '011000015' },
+  signature: 'Jane Doe',
+  spouseSignature: '',
+  documentUploads: {
+    clientDL: { id: 'file-dl', name: 'license.png', type: 'image/png', data: LEGACY_IMAGE_DATA_URL }
+  },
+  incomeData: [{
+    type: 'W-2 Forms (Employment Income)',
+    files: [{ id: 'file-w2', name: 'w2.png', type: 'image/png', data: LEGACY_IMAGE_DATA_URL }]
+  }],
+  adjustmentData: [{ type: 'IRA Contributions', amount: '6000', files: [] }],
+  creditData: [{ type: 'Childcare Expenses', details: 'ABC Daycare, $4,000', files: [] }],
+  userAgreementAccepted: true
+}
+
+// Version 1 once encryption landed: clear metadata around one ciphertext
+export const V1_ENCRYPTED_RECORD = {
+  email: 'jane@example.com',
+  lastSaved: '2025-02-02T10:00:00.000Z',
+  encryption: { algorithm: 'AES-GCM' as const, salt: 'c2FsdA==', iterations: 310000 },
+  iv: 'aXYxMjM0NTY3ODk=',
+  ciphertext: 'Y2lwaGVydGV4dA=='
+}
+
+// Version 2: encrypted answers per account, with each upload in the
+// documents store under its file id
+export const V2_ANSWERS_RECORD = {
+  email: 'jane@example.com',
+  iv: 'aXYxMjM0NTY3ODk=',
+  ciphertext: 'YW5zd2Vycw=='
+}
+
+export const V2_DOCUMENTS = new Map([['file-w2', LEGACY_IMAGE_DATA_URL]])
+
+// The decrypted V2_ANSWERS_RECORD payload
+export const V2_ANSWERS_PAYLOAD = {
+  schemaVersion: 2,
+  currentStep: 9,
+  filingJointly: false,
+  clientInfo: V1_PLAINTEXT_RECORD.clientInfo,
+  spouseInfo: V1_PLAINTEXT_RECORD.spouseInfo,
+  dependents: [],
+  bankInfo: V1_PLAINTEXT_RECORD.bankInfo,
+  signature: '',
+  spouseSignature: '',
+  documentUploads: { incomeDocuments: [] },
+  incomeData: [{ type: 'W-2 Forms (Employment Income)', files: [{ id: 'file-w2', name: 'w2.png', type: 'image/png' }] }],
+  adjustmentData: [],
+  creditData: [],
+  userAgreementAccepted: true
+}
+
+// Version 4: one checklist record per tax year, documents by hash, and no
+// taxpayer yet. Shown with its payload decrypted into data.
+export const V4_CHECKLIST_RECORD = {
+  email: 'jane@example.com',
+  taxYear: 2024,
+  lastSaved: '2025-03-01T10:00:00.000Z',
+  data: {
+    schemaVersion: 4,
+    taxYear: 2024,
+    currentStep: 1,
+    filingJointly: false,
+    clientInfo: V1_PLAINTEXT_RECORD.clientInfo,
+    spouseInfo: V1_PLAINTEXT_RECORD.spouseInfo,
+    dependents: [],
+    bankInfo: V1_PLAINTEXT_RECORD.bankInfo,
+    signature: 'Jane Doe',
+    spouseSignature: '',
+    documentUploads: { incomeDocuments: [] },
+    incomeData: [{
+      type: '1099-INT (Interest Income)',
+      files: [{ name: 'int.pdf', type: 'application/pdf', hash: 'abc123', size: 2048 }]
+    }],
+    adjustmentData: [],
+    creditData: [{ type: 'Mortgage Interest', details: '', files: [] }],
+    userAgreementAccepted: true
+  }
+}
+
+// Version 5: keyed by taxpayer as well
+export const V5_CHECKLIST_RECORD = {
+  ...V4_CHECKLIST_RECORD,
+  taxpayerId: 'b5c1c2c4-1111-4222-8333-944445555666',
+  revision: 3,
+  data: {
+    ...V4_CHECKLIST_RECORD.data,
+    schemaVersion: 5,
+    taxpayerId: 'b5c1c2c4-1111-4222-8333-944445555666'
+  }
+}
@@ -0,0 +1,117 @@
+// Browser-side calls to the portal's route handlers
+
+// One row of the staff dashboard client list: a checklist for one taxpayer
+// and tax year
+export interface ClientSummary {
+  id: string
+  taxpayerId: string
+  taxYear: number
+  email: string
+  clientName: string
+  currentStep: string
+  lastSaved: string
+  referenceId: string | null
+  submittedAt: string | null
+  incomeCount: number
+  adjustmentCount: number
+  creditCount: number
+}
+
+// A copy of a checklist as the server holds it. The revision counts the
+// writes the server has accepted, and a push names the one it builds on.
+export interface ServerChecklist {
+  lastSaved: string
+  revision: number
+  data: any
+}
+
+// A checklist the signed-in account has saved on the server
+export interface ChecklistIndexEntry {
+  taxpayerId: string
+  taxYear: number
+  lastSaved: string
+  name: string
+}
+
+export interface ApiResult<T = any> {
+  ok: boolean
+  status: number
+  data: T & { error?: string }
+}
+
+const requestJSON = async <T = any>(url: string, method: string, body?: unknown): Promise<ApiResult<T>> => {
+  const response = await fetch(url, {
+    method,
+    credentials: 'same-origin',
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+  const data = await response.json().catch(() => ({}))
+  return { ok: response.ok, status: response.status, data }
+}
+
+export const apiRegister = (email: string, password: string) => {
+  return requestJSON<{ email: string }>('/api/auth/register', 'POST', { email, password })
+}
+
+export const apiLogin = (email: string, password: string) => {
+  return requestJSON<{ email: string }>('/api/auth/login', 'POST', { email, password })
+}
+
+export const apiLogout = () => {
+  return requestJSON('/api/auth/logout', 'POST')
+}
+
+export const fetchChecklist = (taxpayerId?: string, taxYear?: number) => {
+  return requestJSON<{ checklist: ServerChecklist | null, checklists: ChecklistIndexEntry[] }>(
+    taxpayerId && taxYear ? `/api/checklist?taxpayerId=${taxpayerId}&taxYear=${taxYear}` : '/api/checklist',
+    'GET'
+  )
+}
+
+// A 409 response carries the newer copy as checklist
+export const pushChecklist = (baseRevision: number, lastSaved: string, data: any) => {
+  return requestJSON<{ revision: number, checklist?: ServerChecklist }>('/api/checklist', 'PUT', { baseRevision, lastSaved, data })
+}
+
+export const apiStaffRegister = (email: string, password: string, inviteCode: string) => {
+  return requestJSON<{ email: string }>('/api/staff/register', 'POST', { email, password, inviteCode })
+}
+
+export const apiStaffLogin = (email: string, password: string) => {
+  return requestJSON<{ email: string }>('/api/staff/login', 'POST', { email, password })
+}
+
+export const apiStaffLogout = () => {
+  return requestJSON('/api/staff/logout', 'POST')
+}
+
+export const fetchStaffClients = () => {
+  return requestJSON<{ staffEmail: string, clients: ClientSummary[] }>('/api/staff/clients', 'GET')
+}
+
+export const fetchStaffClient = (id: string, taxpayerId: string, taxYear: number) => {
+  return requestJSON<{
+    checklist: { email?: string, lastSaved: string, data: any }
+    documents: Record<string, string>
+  }>(`/api/staff/clients/${id}?taxpayerId=${taxpayerId}&taxYear=${taxYear}`, 'GET')
+}
+
+export const fetchDocumentHashes = () => {
+  return requestJSON<{ hashes: string[] }>('/api/documents', 'GET')
+}
+
+export const fetchDocument = async (hash: string): Promise<Blob | null> => {
+  const response = await fetch(`/api/documents/${hash}`, { credentials: 'same-origin' })
+  return response.ok ? response.blob() : null
+}
+
+export const pushDocument = async (hash: string, blob: Blob): Promise<boolean> => {
+  const response = await fetch(`/api/documents/${hash}`, {
+    method: 'PUT',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: blob
+  })
+  return response.ok
+}
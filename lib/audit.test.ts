@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { diffForAudit } from '@/lib/audit'
+
+const w2 = { name: 'w2.pdf', type: 'application/pdf', hash: 'aaa', size: 100 }
+const correctedW2 = { ...w2, hash: 'bbb', size: 120 }
+
+const actions = (previous: Record<string, any>, next: Record<string, any>) => {
+  return diffForAudit(previous, next, 'jane@example.com').map(({ action, path, oldValue, newValue }) => ({ action, path, oldValue, newValue }))
+}
+
+describe('diffForAudit', () => {
+  it('logs a file replaced by one of the same name as a removal and an upload', () => {
+    const before = { incomeData: [{ type: 'W-2', files: [w2] }] }
+    const after = { incomeData: [{ type: 'W-2', files: [correctedW2] }] }
+
+    expect(actions(before, after)).toEqual([
+      { action: 'upload', path: 'incomeData[W-2].files', oldValue: undefined, newValue: 'w2.pdf' },
+      { action: 'remove-file', path: 'incomeData[W-2].files', oldValue: 'w2.pdf', newValue: undefined }
+    ])
+  })
+
+  it('logs a replaced single upload', () => {
+    const before = { documentUploads: { clientDL: w2 } }
+    const after = { documentUploads: { clientDL: correctedW2 } }
+
+    expect(actions(before, after).map(entry => entry.action)).toEqual(['remove-file', 'upload'])
+  })
+
+  it('ignores files that did not change', () => {
+    const data = { incomeData: [{ type: 'W-2', files: [w2] }], documentUploads: { clientDL: w2 } }
+    expect(actions(data, { incomeData: [{ type: 'W-2', files: [{ ...w2 }] }], documentUploads: { clientDL: { ...w2 } } })).toEqual([])
+  })
+})
+
+describe('diffForAudit masking', () => {
+  it('masks tax ids from income forms and credits', () => {
+    const before = { incomeData: [{ type: 'W-2', entries: [{ id: 'w2-1', values: { employerEin: '' } }] }], creditData: [] }
+    const after = {
+      incomeData: [{ type: 'W-2', entries: [{ id: 'w2-1', values: { employerEin: '12-3456789' } }] }],
+      creditData: [{ type: 'Childcare Expenses', details: { providerTaxId: '98-7654321' } }]
+    }
+
+    const values = diffForAudit(before, after, 'jane@example.com').map(entry => entry.newValue).filter(Boolean)
+    expect(values).toEqual(['•••• 6789', '•••• 4321'])
+  })
+})
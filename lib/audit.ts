@@ -0,0 +1,145 @@
+// Field-level change tracking for the checklist audit trail
+
+import type { AuditEntry } from '@/lib/checklist'
+import { CREDIT_FIELDS, CreditField } from '@/lib/credits'
+import { INCOME_FORMS, IncomeField } from '@/lib/income'
+
+// Tax ids on income forms and credits are masked too, taken from their field
+// lists so a new one can't be missed
+const taxIdKeys = (fields: (IncomeField | CreditField)[]): string[] => {
+  return fields.filter(field => field.kind === 'taxId').map(field => field.key)
+}
+
+const SENSITIVE_FIELDS = Array.from(new Set([
+  'ssn', 'accountNumber', 'routingNumber', 'dlNumber',
+  ...taxIdKeys(Object.values(INCOME_FORMS).flat()),
+  ...taxIdKeys(Object.values(CREDIT_FIELDS).flat())
+]))
+const FILE_LIST_FIELDS = ['files', 'incomeDocuments']
+// Recorded as changed without copying the image data into the log
+const IMAGE_FIELDS = ['image']
+
+export const maskValue = (value: string): string => {
+  if (!value) return ''
+  const visible = value.replace(/[^0-9A-Za-z]/g, '').slice(-4)
+  return `•••• ${visible}`
+}
+
+const isUploadedFile = (value: any): boolean => {
+  return !!value && typeof value === 'object' && typeof value.name === 'string' && 'hash' in value
+}
+
+const describe = (value: any): string => {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Array items are addressed by their id (dependents) or type (income,
+// adjustment and credit selections) so paths stay stable when items move
+const itemKey = (item: any, index: number): string => {
+  if (item && typeof item === 'object') {
+    if (item.id) return String(item.id)
+    if (item.type) return String(item.type)
+  }
+  return String(index)
+}
+
+export const diffForAudit = (previous: Record<string, any>, next: Record<string, any>, actor: string): AuditEntry[] => {
+  const entries: AuditEntry[] = []
+  const timestamp = new Date().toISOString()
+
+  const push = (action: AuditEntry['action'], path: string, oldValue?: string, newValue?: string) => {
+    entries.push({ id: crypto.randomUUID(), timestamp, actor, action, path, oldValue, newValue })
+  }
+
+  // Files are matched by content hash, so replacing a file with another of
+  // the same name is logged as a removal and an upload
+  const diffFiles = (path: string, before: any[] = [], after: any[] = []) => {
+    const remaining = [...before]
+    for (const file of after) {
+      const index = remaining.findIndex(existing => existing.hash === file.hash)
+      if (index >= 0) {
+        remaining.splice(index, 1)
+      } else {
+        push('upload', path, undefined, file.name)
+      }
+    }
+    remaining.forEach(file => push('remove-file', path, file.name, undefined))
+  }
+
+  const diff = (path: string, field: string, before: any, after: any) => {
+    if (before === after) return
+
+    if (FILE_LIST_FIELDS.includes(field)) {
+      diffFiles(path, before, after)
+      return
+    }
+
+    if (isUploadedFile(before) || isUploadedFile(after)) {
+      if (before?.hash === after?.hash) return
+      if (before) push('remove-file', path, before.name, undefined)
+      if (after) push('upload', path, undefined, after.name)
+      return
+    }
+
+    if (Array.isArray(before) || Array.isArray(after)) {
+      const beforeItems = new Map<string, any>((before || []).map((item: any, index: number) => [itemKey(item, index), item]))
+      const afterItems = new Map<string, any>((after || []).map((item: any, index: number) => [itemKey(item, index), item]))
+      beforeItems.forEach((item, key) => {
+        if (!afterItems.has(key)) push('remove', `${path}[${key}]`)
+      })
+      afterItems.forEach((item, key) => {
+        if (!beforeItems.has(key)) push('add', `${path}[${key}]`)
+        diff(`${path}[${key}]`, '', beforeItems.get(key) || {}, item)
+      })
+      return
+    }
+
+    const isObject = (value: any) => value && typeof value === 'object'
+    if (isObject(before) || isObject(after)) {
+      const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+      keys.forEach(key => {
+        // Array item ids and types are already part of the path
+        if ((key === 'id' || key === 'type') && path.endsWith(']')) return
+        diff(path ? `${path}.${key}` : key, key, before?.[key], after?.[key])
+      })
+      return
+    }
+
+    const oldValue = describe(before)
+    const newValue = describe(after)
+    if (oldValue === newValue) return
+
+    if (IMAGE_FIELDS.includes(field)) {
+      push('update', path, oldValue && '(drawing)', newValue && '(drawing)')
+    } else if (SENSITIVE_FIELDS.includes(field)) {
+      push('update', path, maskValue(oldValue), maskValue(newValue))
+    } else {
+      push('update', path, oldValue, newValue)
+    }
+  }
+
+  diff('', '', previous, next)
+  return entries
+}
+
+// Entries are never dropped: whatever either copy has recorded is kept
+export const mergeAuditLogs = (existing: AuditEntry[] = [], incoming: AuditEntry[] = []): AuditEntry[] => {
+  const byId = new Map<string, AuditEntry>()
+  existing.forEach(entry => byId.set(entry.id, entry))
+  incoming.forEach(entry => {
+    if (!byId.has(entry.id)) byId.set(entry.id, entry)
+  })
+  return Array.from(byId.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
+
+const csvCell = (value: string = ''): string => `"${value.replace(/"/g, '""')}"`
+
+export const auditLogToCSV = (entries: AuditEntry[]): string => {
+  const header = ['Timestamp', 'User', 'Action', 'Field', 'Old Value', 'New Value']
+  const rows = entries.map(entry => [
+    entry.timestamp, entry.actor, entry.action, entry.path, entry.oldValue, entry.newValue
+  ].map(csvCell).join(','))
+  return [header.map(csvCell).join(','), ...rows].join('\n')
+}
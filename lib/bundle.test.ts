@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { BundleError, openBundle } from '@/lib/bundle'
+import { deriveEncryptionKey, encryptJSON } from '@/lib/crypto'
+import { migrateChecklistData } from '@/lib/migrations'
+import { V5_CHECKLIST_RECORD } from '@/lib/__fixtures__/checklist-records'
+
+const PASSWORD = 'correct horse'
+
+// A bundle around any contents, with few iterations to keep the tests fast
+const bundleOf = async (contents: unknown): Promise<Blob> => {
+  const key = await deriveEncryptionKey(PASSWORD, undefined, 1000)
+  return new Blob([JSON.stringify({
+    format: 'tbs-checklist-export',
+    version: 1,
+    email: 'jane@example.com',
+    exportedAt: '2025-03-01T10:00:00.000Z',
+    salt: key.salt,
+    iterations: key.iterations,
+    ...await encryptJSON(key.key, contents)
+  })])
+}
+
+const checklist = async () => {
+  const data = await migrateChecklistData(V5_CHECKLIST_RECORD.data)
+  return { ...data, incomeData: data.incomeData.map(item => ({ ...item, files: [] })) }
+}
+
+describe('openBundle', () => {
+  it('opens a well-formed export', async () => {
+    const opened = await openBundle(await bundleOf({ checklist: await checklist(), documents: {} }), PASSWORD)
+    expect(opened.checklist.taxYear).toBe(2024)
+  })
+
+  it.each([
+    ['no tax year', { taxYear: undefined }],
+    ['no taxpayer', { taxpayerId: '' }],
+    ['dependents that are not a list', { dependents: 'Jimmy' }],
+    ['income without its file list', { incomeData: [{ type: 'W-2 Forms (Employment Income)', entries: [] }] }],
+    ['no client details', { clientInfo: null }]
+  ])('refuses a checklist with %s', async (_, change) => {
+    const bundle = await bundleOf({ checklist: { ...await checklist(), ...change }, documents: {} })
+    await expect(openBundle(bundle, PASSWORD)).rejects.toThrow(BundleError)
+  })
+
+  it('refuses a document that is not base64', async () => {
+    const bundle = await bundleOf({ checklist: await checklist(), documents: { abc: { type: 'image/png', data: '%%%' } } })
+    await expect(openBundle(bundle, PASSWORD)).rejects.toThrow('This export is damaged')
+  })
+})
@@ -0,0 +1,150 @@
+// Password-encrypted export of one checklist and its documents, for moving
+// work to another browser. The file is JSON: the account email and key
+// derivation parameters in the clear around one AES-GCM ciphertext.
+
+import { ChecklistData, listChecklistFiles, parseTaxYear, parseTaxpayerId } from '@/lib/checklist'
+import { deriveEncryptionKey, encryptJSON, decryptJSON, bytesToBase64, base64ToBytes } from '@/lib/crypto'
+import { migrateChecklistData, CHECKLIST_SCHEMA_VERSION } from '@/lib/migrations'
+import { hashBlob } from '@/lib/documents'
+
+const BUNDLE_FORMAT = 'tbs-checklist-export'
+const BUNDLE_VERSION = 1
+const MAX_ITERATIONS = 10000000
+
+interface ChecklistBundle {
+  format: string
+  version: number
+  email: string
+  exportedAt: string
+  salt: string
+  iterations: number
+  iv: string
+  ciphertext: string
+}
+
+interface BundleContents {
+  checklist: ChecklistData
+  documents: Record<string, { type: string, data: string }>
+}
+
+export interface OpenedBundle {
+  email: string
+  exportedAt: string
+  checklist: ChecklistData
+  documents: Map<string, Blob>
+}
+
+// Thrown with a message that can be shown to the client as-is
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BundleError'
+  }
+}
+
+export const createBundle = async (
+  email: string,
+  password: string,
+  checklist: ChecklistData,
+  blobs: Map<string, Blob>
+): Promise<Blob> => {
+  const documents: BundleContents['documents'] = {}
+  for (const file of listChecklistFiles(checklist)) {
+    const blob = blobs.get(file.hash)
+    if (!blob) throw new BundleError(`${file.name} has not finished downloading to this device yet`)
+    documents[file.hash] = { type: blob.type, data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())) }
+  }
+
+  const key = await deriveEncryptionKey(password)
+  const contents: BundleContents = { checklist: { ...checklist, schemaVersion: CHECKLIST_SCHEMA_VERSION }, documents }
+  const bundle: ChecklistBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    email,
+    exportedAt: new Date().toISOString(),
+    salt: key.salt,
+    iterations: key.iterations,
+    ...await encryptJSON(key.key, contents)
+  }
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' })
+}
+
+const isObject = (value: unknown): boolean => !!value && typeof value === 'object' && !Array.isArray(value)
+
+const hasFiles = (item: any): boolean => isObject(item) && typeof item.type === 'string' && Array.isArray(item.files)
+
+// The parts of a checklist the wizard reads without checking, so a damaged
+// export is refused here rather than failing deep inside a step
+const isChecklistShape = (checklist: any): boolean => {
+  return isObject(checklist) &&
+    !!parseTaxYear(checklist.taxYear) &&
+    !!parseTaxpayerId(checklist.taxpayerId) &&
+    typeof checklist.filingJointly === 'boolean' &&
+    [checklist.clientInfo, checklist.spouseInfo, checklist.bankInfo, checklist.documentUploads].every(isObject) &&
+    Array.isArray(checklist.dependents) && checklist.dependents.every(isObject) &&
+    Array.isArray(checklist.incomeData) && checklist.incomeData.every((item: any) => hasFiles(item) && Array.isArray(item.entries)) &&
+    Array.isArray(checklist.adjustmentData) && checklist.adjustmentData.every(hasFiles) &&
+    Array.isArray(checklist.creditData) && checklist.creditData.every((item: any) => hasFiles(item) && isObject(item.details)) &&
+    Array.isArray(checklist.auditLog || [])
+}
+
+export const openBundle = async (file: Blob, password: string): Promise<OpenedBundle> => {
+  let bundle: ChecklistBundle
+  try {
+    bundle = JSON.parse(await file.text())
+  } catch {
+    throw new BundleError('This file is not a checklist export')
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || typeof bundle.email !== 'string' || !bundle.ciphertext) {
+    throw new BundleError('This file is not a checklist export')
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new BundleError('This export was made by a newer version of the portal')
+  }
+  if (!Number.isInteger(bundle.iterations) || bundle.iterations < 1 || bundle.iterations > MAX_ITERATIONS) {
+    throw new BundleError('This export is damaged')
+  }
+
+  let contents: BundleContents
+  try {
+    const key = await deriveEncryptionKey(password, bundle.salt, bundle.iterations)
+    contents = await decryptJSON<BundleContents>(key.key, { iv: bundle.iv, ciphertext: bundle.ciphertext })
+  } catch {
+    throw new BundleError('Incorrect password, or the export is damaged')
+  }
+
+  const raw = contents?.checklist
+  if (!isObject(raw) || !isObject(contents.documents || {})) {
+    throw new BundleError('This export is damaged')
+  }
+  if ((raw.schemaVersion || 1) > CHECKLIST_SCHEMA_VERSION) {
+    throw new BundleError('This export was made by a newer version of the portal')
+  }
+  const checklist = await migrateChecklistData(raw).catch(() => null)
+  if (!checklist || !isChecklistShape(checklist)) {
+    throw new BundleError('This export is damaged or does not have a valid tax year')
+  }
+
+  // Documents are addressed by content, so a mismatched hash means tampering
+  // or corruption
+  const documents = new Map<string, Blob>()
+  for (const [hash, document] of Object.entries(contents.documents || {})) {
+    if (!isObject(document) || typeof document.data !== 'string' || typeof document.type !== 'string') {
+      throw new BundleError('This export is damaged')
+    }
+    let bytes: Uint8Array<ArrayBuffer>
+    try {
+      bytes = base64ToBytes(document.data)
+    } catch {
+      throw new BundleError('This export is damaged')
+    }
+    const blob = new Blob([bytes], { type: document.type })
+    if (await hashBlob(blob) !== hash) throw new BundleError('This export is damaged')
+    documents.set(hash, blob)
+  }
+  if (listChecklistFiles(checklist).some(file => !documents.has(file.hash))) {
+    throw new BundleError('This export is missing some of its documents')
+  }
+
+  return { email: bundle.email, exportedAt: bundle.exportedAt, checklist, documents }
+}
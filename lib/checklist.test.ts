@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { rolloverChecklist } from '@/lib/checklist'
+import { migrateChecklistData } from '@/lib/migrations'
+import { V5_CHECKLIST_RECORD } from '@/lib/__fixtures__/checklist-records'
+
+describe('rolloverChecklist', () => {
+  it('carries a joint filer and their spouse into the new year', async () => {
+    const previous = { ...await migrateChecklistData(V5_CHECKLIST_RECORD.data), filingJointly: true }
+    const next = rolloverChecklist(previous, 2025)
+
+    expect(next.taxYear).toBe(2025)
+    expect(next.filingJointly).toBe(true)
+    expect(next.spouseInfo).toEqual(previous.spouseInfo)
+    expect(next.signature).toBeNull()
+    expect(next.incomeData[0].files).toEqual([])
+  })
+})
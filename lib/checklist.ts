@@ -0,0 +1,221 @@
+// Checklist data model shared by the client wizard, the report and the server
+
+import { CreditDetailsByType, CreditType, rolloverCreditDetails } from '@/lib/credits'
+import { IncomeEntry, rolloverIncomeEntries } from '@/lib/income'
+
+export interface ClientInfo {
+  name: string
+  dob: string
+  ssn: string
+  address: string
+  phone: string
+  email: string
+  dlState: string
+  dlIssueDate: string
+  dlExpDate: string
+  dlNumber: string
+  occupation: string
+}
+
+export interface Dependent {
+  id: string
+  name: string
+  dob: string
+  ssn: string
+  relationship: string
+}
+
+export interface BankInfo {
+  bankName: string
+  accountNumber: string
+  routingNumber: string
+}
+
+// A reference to a document Blob, stored separately under its SHA-256 hash
+export interface UploadedFile {
+  name: string
+  type: string
+  hash: string
+  size: number
+}
+
+export interface DocumentUploads {
+  clientDL?: UploadedFile
+  spouseDL?: UploadedFile
+  lastYearTax?: UploadedFile
+  incomeDocuments: UploadedFile[]
+  irsPin?: UploadedFile
+}
+
+export interface IncomeDocument {
+  type: string
+  files: UploadedFile[]
+  // The forms transcribed from files, for types with a form in lib/income
+  entries: IncomeEntry[]
+}
+
+export interface AdjustmentDocument {
+  type: string
+  amount: string
+  files: UploadedFile[]
+}
+
+// One entry per selected credit, its details shaped by its type
+export type CreditDocument = {
+  [T in CreditType]: {
+    type: T
+    details: CreditDetailsByType[T]
+    files: UploadedFile[]
+  }
+}[CreditType]
+
+// A drawn signature and what it attests to: contentHash is the SHA-256 of
+// the checklist content when the stroke was finished (see lib/signatures),
+// so anyone holding the checklist can tell whether it changed after signing
+export interface Signature {
+  name: string
+  // PNG data URL of the strokes; empty until the signer draws
+  image: string
+  signedAt: string
+  contentHash: string
+}
+
+export const EMPTY_CLIENT_INFO: ClientInfo = {
+  name: '', dob: '', ssn: '', address: '', phone: '', email: '',
+  dlState: '', dlIssueDate: '', dlExpDate: '', dlNumber: '', occupation: ''
+}
+
+export const EMPTY_BANK_INFO: BankInfo = {
+  bankName: '', accountNumber: '', routingNumber: ''
+}
+
+
+export interface SubmissionMetadata {
+  timestamp: string
+  referenceId: string
+  // Advisory gaps from the completeness report the client submitted without
+  acknowledgedGaps?: string[]
+}
+
+// One append-only record of a change to a checklist field. Paths look like
+// bankInfo.routingNumber or dependents[<id>].ssn; sensitive values are masked.
+export interface AuditEntry {
+  id: string
+  timestamp: string
+  actor: string
+  action: 'update' | 'add' | 'remove' | 'upload' | 'remove-file' | 'submit'
+  path: string
+  oldValue?: string
+  newValue?: string
+}
+
+// Returns are filed the year after the tax year they cover
+export const defaultTaxYear = (): number => new Date().getFullYear() - 1
+
+// Checklists saved before tax years were tracked are all from this season
+export const LEGACY_TAX_YEAR = 2025
+
+// A login can manage checklists for several taxpayers, such as a parent or a
+// spouse filing separately. Checklists saved before that belong to the
+// account holder under this id.
+export const PRIMARY_TAXPAYER_ID = 'primary'
+
+export const parseTaxYear = (value: unknown): number | null => {
+  const year = Number(value)
+  return Number.isInteger(year) && year >= 2000 && year <= 2100 ? year : null
+}
+
+// Taxpayer ids are 'primary' or a UUID; anything else is refused before it
+// is used as a storage key
+export const parseTaxpayerId = (value: unknown): string | null => {
+  return typeof value === 'string' && /^[a-z0-9-]{1,64}$/.test(value) ? value : null
+}
+
+// Everything the wizard saves for a client, locally and on the server. An
+// account holds one of these per taxpayer and tax year.
+export interface ChecklistData {
+  schemaVersion?: number
+  taxpayerId: string
+  taxYear: number
+  // Id of the wizard step the client is on; see lib/steps
+  currentStep: string
+  filingJointly: boolean
+  clientInfo: ClientInfo
+  spouseInfo: ClientInfo
+  dependents: Dependent[]
+  bankInfo: BankInfo
+  signature: Signature | null
+  spouseSignature: Signature | null
+  documentUploads: DocumentUploads
+  incomeData: IncomeDocument[]
+  adjustmentData: AdjustmentDocument[]
+  creditData: CreditDocument[]
+  userAgreementAccepted: boolean
+  submissionMetadata?: SubmissionMetadata | null
+  auditLog?: AuditEntry[]
+}
+
+export const EMPTY_CHECKLIST_DATA: ChecklistData = {
+  taxpayerId: PRIMARY_TAXPAYER_ID,
+  taxYear: defaultTaxYear(),
+  currentStep: 'welcome',
+  filingJointly: false,
+  clientInfo: EMPTY_CLIENT_INFO,
+  spouseInfo: EMPTY_CLIENT_INFO,
+  dependents: [],
+  bankInfo: EMPTY_BANK_INFO,
+  signature: null,
+  spouseSignature: null,
+  documentUploads: { incomeDocuments: [] },
+  incomeData: [],
+  adjustmentData: [],
+  creditData: [],
+  userAgreementAccepted: false,
+  submissionMetadata: null,
+  auditLog: []
+}
+
+// Applies fn to every uploaded file in the checklist, wherever it lives
+export const mapChecklistFiles = (data: ChecklistData, fn: (file: UploadedFile) => UploadedFile): ChecklistData => {
+  const { clientDL, spouseDL, lastYearTax, irsPin, incomeDocuments } = data.documentUploads
+  return {
+    ...data,
+    documentUploads: {
+      ...data.documentUploads,
+      clientDL: clientDL && fn(clientDL),
+      spouseDL: spouseDL && fn(spouseDL),
+      lastYearTax: lastYearTax && fn(lastYearTax),
+      irsPin: irsPin && fn(irsPin),
+      incomeDocuments: incomeDocuments.map(fn)
+    },
+    incomeData: data.incomeData.map(item => ({ ...item, files: item.files.map(fn) })),
+    adjustmentData: data.adjustmentData.map(item => ({ ...item, files: item.files.map(fn) })),
+    creditData: data.creditData.map(item => ({ ...item, files: item.files.map(fn) }))
+  }
+}
+
+export const listChecklistFiles = (data: ChecklistData): UploadedFile[] => {
+  const files: UploadedFile[] = []
+  mapChecklistFiles(data, file => {
+    files.push(file)
+    return file
+  })
+  return files
+}
+
+// Starting point for a new tax year: filing status, personal, household and
+// bank details and the document types picked last year, without any
+// documents, amounts, signatures or history
+export const rolloverChecklist = (previous: ChecklistData, taxYear: number): ChecklistData => ({
+  ...EMPTY_CHECKLIST_DATA,
+  taxpayerId: previous.taxpayerId,
+  taxYear,
+  filingJointly: previous.filingJointly,
+  clientInfo: previous.clientInfo,
+  spouseInfo: previous.spouseInfo,
+  dependents: previous.dependents,
+  bankInfo: previous.bankInfo,
+  incomeData: previous.incomeData.map(item => ({ type: item.type, files: [], entries: rolloverIncomeEntries(item.type, item.entries) })),
+  adjustmentData: previous.adjustmentData.map(item => ({ type: item.type, amount: '', files: [] })),
+  creditData: previous.creditData.map(item => ({ type: item.type, details: rolloverCreditDetails(item.type, item.details), files: [] }) as CreditDocument)
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { ChecklistData, EMPTY_CHECKLIST_DATA, UploadedFile } from '@/lib/checklist'
+import { advisoryGapsKey, checkCompleteness } from '@/lib/completeness'
+import { V1_PLAINTEXT_RECORD } from '@/lib/__fixtures__/checklist-records'
+
+const file = (name: string): UploadedFile => ({ name, type: 'application/pdf', hash: `hash-${name}`, size: 1024 })
+const signature = { name: 'Jane Doe', image: 'data:image/png;base64,AAAA', signedAt: '2025-03-01T10:00:00.000Z', contentHash: 'abc' }
+
+// A single filer with nothing missing
+const complete: ChecklistData = {
+  ...EMPTY_CHECKLIST_DATA,
+  taxYear: 2024,
+  clientInfo: V1_PLAINTEXT_RECORD.clientInfo,
+  spouseInfo: V1_PLAINTEXT_RECORD.spouseInfo,
+  bankInfo: V1_PLAINTEXT_RECORD.bankInfo,
+  documentUploads: { clientDL: file('license.pdf'), lastYearTax: file('2023.pdf'), incomeDocuments: [] },
+  incomeData: [{ type: 'Rental Property Income', files: [file('rent.pdf')], entries: [] }],
+  signature
+}
+
+const blocking = (data: ChecklistData) => checkCompleteness(data).filter(gap => gap.severity === 'blocking').map(gap => gap.id)
+
+describe('checkCompleteness', () => {
+  it('finds nothing missing in a complete checklist', () => {
+    expect(checkCompleteness(complete)).toEqual([])
+  })
+
+  it('blocks on a W-2 selected without documents', () => {
+    const data = { ...complete, incomeData: [{ type: 'W-2 Forms (Employment Income)', files: [], entries: [] }] }
+    expect(blocking(data)).toEqual(['incomeData[W-2 Forms (Employment Income)]'])
+  })
+
+  it('blocks on an adjustment without an amount', () => {
+    const data = { ...complete, adjustmentData: [{ type: 'IRA Contributions', amount: ' ', files: [file('ira.pdf')] }] }
+    expect(blocking(data)).toEqual(['adjustmentData[IRA Contributions].amount'])
+  })
+
+  it("blocks a joint return on the spouse's license and signature", () => {
+    const data = {
+      ...complete,
+      filingJointly: true,
+      spouseInfo: { ...V1_PLAINTEXT_RECORD.clientInfo, name: 'John Doe', ssn: '987-65-4321' },
+      spouseSignature: { ...signature, name: 'John Doe' }
+    }
+    expect(blocking(data)).toEqual(['documentUploads.spouseDL'])
+  })
+
+  it('blocks on partial bank details but only advises on none', () => {
+    const partial = { ...complete, bankInfo: { ...complete.bankInfo, accountNumber: '' } }
+    expect(blocking(partial)).toEqual(['bankInfo'])
+
+    const none = { ...complete, bankInfo: { bankName: '', accountNumber: '', routingNumber: '' } }
+    expect(blocking(none)).toEqual([])
+    expect(checkCompleteness(none).map(gap => gap.id)).toEqual(['bankInfo'])
+  })
+})
+
+describe('advisoryGapsKey', () => {
+  it('lapses an acknowledgement when the advisory gaps change', () => {
+    const withoutReturn = { ...complete, documentUploads: { ...complete.documentUploads, lastYearTax: undefined } }
+    const acknowledged = advisoryGapsKey(checkCompleteness(withoutReturn))
+
+    expect(advisoryGapsKey(checkCompleteness({ ...withoutReturn }))).toBe(acknowledged)
+    const moreGaps = { ...withoutReturn, bankInfo: { bankName: '', accountNumber: '', routingNumber: '' } }
+    expect(advisoryGapsKey(checkCompleteness(moreGaps))).not.toBe(acknowledged)
+    expect(advisoryGapsKey(checkCompleteness(complete))).not.toBe(acknowledged)
+  })
+
+  it('ignores blocking gaps', () => {
+    const unsigned = { ...complete, signature: null }
+    expect(advisoryGapsKey(checkCompleteness(unsigned))).toBe(advisoryGapsKey(checkCompleteness(complete)))
+  })
+})
@@ -0,0 +1,142 @@
+// What is still missing from a checklist before it goes to the preparer.
+// Blocking gaps are things the return can't be prepared without; advisory
+// gaps are often missing for a good reason, so the client may submit with
+// them after acknowledging each one.
+
+import { ChecklistData, ClientInfo } from '@/lib/checklist'
+import { hasCreditDetails } from '@/lib/credits'
+import { incomeFormName, isIncomeFormType } from '@/lib/income'
+import { isSigned } from '@/lib/signatures'
+import { StepId } from '@/lib/steps'
+import { validateChecklist } from '@/lib/validation'
+
+export type GapSeverity = 'blocking' | 'advisory'
+
+export interface CompletenessGap {
+  // Stable within a checklist, so an acknowledgement can be tied to the
+  // exact set of gaps it was given for
+  id: string
+  stepId: StepId
+  severity: GapSeverity
+  label: string
+  message: string
+}
+
+const isBlank = (value: string): boolean => !value.trim()
+
+const personGaps = (stepId: StepId, who: string, info: ClientInfo): CompletenessGap[] => {
+  const gaps: CompletenessGap[] = []
+  const required: [keyof ClientInfo, string][] = [
+    ['name', 'Full Name'], ['dob', 'Date of Birth'], ['ssn', 'Social Security Number']
+  ]
+  if (stepId === 'client') required.push(['address', 'Address'])
+  required.forEach(([field, label]) => {
+    if (isBlank(info[field])) {
+      gaps.push({ id: `${stepId}.${field}`, stepId, severity: 'blocking', label: `${who} ${label}`, message: 'Not entered' })
+    }
+  })
+
+  const contact: [keyof ClientInfo, string][] = [['phone', 'Phone'], ['email', 'Email'], ['dlNumber', "Driver's License Number"]]
+  contact.forEach(([field, label]) => {
+    if (isBlank(info[field])) {
+      gaps.push({ id: `${stepId}.${field}`, stepId, severity: 'advisory', label: `${who} ${label}`, message: 'Not entered' })
+    }
+  })
+  return gaps
+}
+
+// Every gap in the checklist. Validation errors are blocking gaps too, so
+// the report is the one list the client works through.
+export const checkCompleteness = (data: ChecklistData): CompletenessGap[] => {
+  const gaps = personGaps('client', 'Your', data.clientInfo)
+  if (data.filingJointly) gaps.push(...personGaps('spouse', "Spouse's", data.spouseInfo))
+
+  data.dependents.forEach((dependent, index) => {
+    const who = dependent.name || `Dependent ${index + 1}`
+    const missing = [
+      dependent.name ? '' : 'name',
+      dependent.dob ? '' : 'date of birth',
+      dependent.ssn ? '' : 'Social Security Number',
+      dependent.relationship ? '' : 'relationship'
+    ].filter(Boolean)
+    if (missing.length > 0) {
+      gaps.push({
+        id: `dependents[${dependent.id}]`,
+        stepId: 'dependents',
+        severity: 'blocking',
+        label: who,
+        message: `Missing ${missing.join(', ')}`
+      })
+    }
+  })
+
+  const uploads = data.documentUploads
+  if (!uploads.clientDL) {
+    gaps.push({ id: 'documentUploads.clientDL', stepId: 'documents', severity: 'blocking', label: "Your Driver's License", message: 'Not uploaded' })
+  }
+  if (data.filingJointly && !uploads.spouseDL) {
+    gaps.push({ id: 'documentUploads.spouseDL', stepId: 'documents', severity: 'blocking', label: "Spouse's Driver's License", message: 'Not uploaded' })
+  }
+  if (!uploads.lastYearTax) {
+    gaps.push({ id: 'documentUploads.lastYearTax', stepId: 'documents', severity: 'advisory', label: "Last Year's Tax Return", message: 'Not uploaded; it helps your preparer carry over amounts' })
+  }
+
+  if (data.incomeData.length === 0) {
+    gaps.push({ id: 'incomeData', stepId: 'income', severity: 'blocking', label: 'Income', message: 'No income types selected' })
+  }
+  data.incomeData.forEach(item => {
+    if (item.files.length === 0) {
+      gaps.push({ id: `incomeData[${item.type}]`, stepId: 'income', severity: 'blocking', label: item.type, message: 'Selected, but no documents uploaded' })
+    }
+    if (!isIncomeFormType(item.type)) return
+    if (item.entries.length === 0) {
+      gaps.push({ id: `incomeData[${item.type}].entries`, stepId: 'income', severity: 'advisory', label: item.type, message: `No ${incomeFormName(item.type)} amounts entered; your preparer will read them from the forms` })
+    }
+    item.entries.forEach((entry, index) => {
+      if (!entry.fileHashes.some(hash => item.files.some(file => file.hash === hash))) {
+        gaps.push({ id: `incomeData[${item.type}].entries[${entry.id}]`, stepId: 'income', severity: 'advisory', label: `${incomeFormName(item.type)} ${index + 1}`, message: 'Not linked to an uploaded form' })
+      }
+    })
+  })
+
+  data.adjustmentData.forEach(item => {
+    if (isBlank(item.amount)) {
+      gaps.push({ id: `adjustmentData[${item.type}].amount`, stepId: 'adjustments', severity: 'blocking', label: item.type, message: 'No amount entered' })
+    } else if (item.files.length === 0) {
+      gaps.push({ id: `adjustmentData[${item.type}].files`, stepId: 'adjustments', severity: 'advisory', label: item.type, message: 'No supporting documents uploaded' })
+    }
+  })
+
+  data.creditData.forEach(item => {
+    if (!hasCreditDetails(item.details) && item.files.length === 0) {
+      gaps.push({ id: `creditData[${item.type}]`, stepId: 'credits', severity: 'advisory', label: item.type, message: 'No details or documents provided' })
+    }
+  })
+
+  // No bank details means a paper check; some but not all means a typo
+  const bankFields = [data.bankInfo.bankName, data.bankInfo.routingNumber, data.bankInfo.accountNumber]
+  if (bankFields.every(isBlank)) {
+    gaps.push({ id: 'bankInfo', stepId: 'bank', severity: 'advisory', label: 'Bank Information', message: 'Not entered; any refund will be mailed as a check' })
+  } else if (bankFields.some(isBlank)) {
+    gaps.push({ id: 'bankInfo', stepId: 'bank', severity: 'blocking', label: 'Bank Information', message: 'Enter the bank name, routing number and account number' })
+  }
+
+  validateChecklist(data).forEach(error => {
+    gaps.push({ id: error.field, stepId: error.stepId, severity: 'blocking', label: error.label, message: error.message })
+  })
+
+  if (!isSigned(data.signature)) {
+    gaps.push({ id: 'signature', stepId: 'review', severity: 'blocking', label: 'Your Signature', message: 'Not signed' })
+  }
+  if (data.filingJointly && !isSigned(data.spouseSignature)) {
+    gaps.push({ id: 'spouseSignature', stepId: 'review', severity: 'blocking', label: "Spouse's Signature", message: 'Not signed' })
+  }
+
+  return gaps
+}
+
+// Key for a set of advisory gaps, so an acknowledgement lapses when the
+// set it was given for changes
+export const advisoryGapsKey = (gaps: CompletenessGap[]): string => {
+  return gaps.filter(gap => gap.severity === 'advisory').map(gap => gap.id).join('|')
+}
@@ -0,0 +1,60 @@
+// Coordination between tabs that have the same account open. Each saved
+// checklist record carries a revision that every write bumps; a tab that
+// saves with an older revision than the stored one is refused instead of
+// overwriting newer work, and tabs announce their saves to each other.
+
+import { ChecklistData } from '@/lib/checklist'
+import { snapshotContent } from '@/lib/snapshots'
+
+const CHANNEL_NAME = 'tbs-checklist'
+
+// Announced after every local save. The hashes are every document the saving
+// tab still needs, so other tabs don't clean them up as unreferenced.
+export interface ChecklistSavedMessage {
+  email: string
+  taxpayerId: string
+  taxYear: number
+  revision: number
+  referencedHashes: string[]
+}
+
+// Thrown when the stored checklist has moved on since this tab loaded it
+export class ChecklistConflictError extends Error {
+  constructor(message: string = 'This checklist was changed in another tab') {
+    super(message)
+    this.name = 'ChecklistConflictError'
+  }
+}
+
+export interface ChecklistChannel {
+  announce: (message: ChecklistSavedMessage) => void
+  close: () => void
+}
+
+// Browsers without BroadcastChannel still get the revision check on save,
+// just without the early warning
+export const openChecklistChannel = (onSaved: (message: ChecklistSavedMessage) => void): ChecklistChannel => {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { announce: () => {}, close: () => {} }
+  }
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = (event: MessageEvent<ChecklistSavedMessage>) => onSaved(event.data)
+  return {
+    announce: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  }
+}
+
+// Three-way merge by section: whatever this tab changed since it last loaded
+// or saved (base) wins, everything else comes from the newer stored copy
+export const mergeChecklistChanges = (base: ChecklistData, local: ChecklistData, stored: ChecklistData): ChecklistData => {
+  const baseContent = snapshotContent(base)
+  const localContent = snapshotContent(local)
+  const merged: ChecklistData = { ...stored }
+  for (const field of Object.keys(localContent) as (keyof typeof localContent)[]) {
+    if (JSON.stringify(localContent[field]) !== JSON.stringify(baseContent[field])) {
+      Object.assign(merged, { [field]: localContent[field] })
+    }
+  }
+  return merged
+}
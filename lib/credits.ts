@@ -0,0 +1,222 @@
+// What the client tells us about each credit and deduction they select.
+// Every type has its own details shape, and a field list the wizard renders
+// as a form and the report as rows. Values are kept as typed, like the rest
+// of the checklist, and every type has free-text notes for anything else.
+
+import type { ChecklistData } from '@/lib/checklist'
+
+interface CreditNotes {
+  notes: string
+}
+
+export interface ChildcareDetails extends CreditNotes {
+  providerName: string
+  providerAddress: string
+  // The provider's EIN, or SSN for an individual
+  providerTaxId: string
+  amountPaid: string
+  // Id of the dependent who was cared for
+  dependentId: string
+}
+
+export interface EducationDetails extends CreditNotes {
+  // 'client', 'spouse' or a dependent id
+  student: string
+  institution: string
+  // Form 1098-T box 1: payments received for qualified tuition
+  tuitionPaid: string
+  // Form 1098-T box 5: scholarships or grants
+  scholarships: string
+}
+
+export interface AdoptionDetails extends CreditNotes {
+  childName: string
+  expensesPaid: string
+  adoptionFinal: string
+  specialNeeds: string
+}
+
+export interface MortgageInterestDetails extends CreditNotes {
+  lender: string
+  // Form 1098 box 1
+  interestPaid: string
+  // Form 1098 box 6
+  pointsPaid: string
+}
+
+export interface PmiDetails extends CreditNotes {
+  lender: string
+  // Form 1098 box 5
+  premiumsPaid: string
+}
+
+export interface InvestmentInterestDetails extends CreditNotes {
+  interestPaid: string
+  netInvestmentIncome: string
+  carryforward: string
+}
+
+export interface HomeBusinessDetails extends CreditNotes {
+  officeSquareFeet: string
+  homeSquareFeet: string
+  rentOrMortgageInterest: string
+  utilities: string
+  insurance: string
+  repairs: string
+}
+
+export interface RentalExpensesDetails extends CreditNotes {
+  propertyAddress: string
+  daysRented: string
+  personalUseDays: string
+  mortgageInterest: string
+  propertyTaxes: string
+  insurance: string
+  repairs: string
+  managementFees: string
+}
+
+export interface CreditDetailsByType {
+  'Childcare Expenses': ChildcareDetails
+  'Education Expenses (Form 1098-T)': EducationDetails
+  'Adoption Expenses': AdoptionDetails
+  'Mortgage Interest': MortgageInterestDetails
+  'Private Mortgage Insurance (PMI)': PmiDetails
+  'Investment Interest Expenses': InvestmentInterestDetails
+  'Home Business Expenses': HomeBusinessDetails
+  'Rental Property Expenses': RentalExpensesDetails
+}
+
+export type CreditType = keyof CreditDetailsByType
+
+export type CreditDetails = CreditDetailsByType[CreditType]
+
+// How a field is entered and shown: dependent and person fields hold the id
+// of someone on the checklist, and taxId fields are masked like SSNs
+export type CreditFieldKind = 'text' | 'amount' | 'number' | 'taxId' | 'yesNo' | 'dependent' | 'person'
+
+export interface CreditField {
+  key: string
+  label: string
+  kind: CreditFieldKind
+}
+
+// A field of one type's details, so a misspelt key fails to compile
+type CreditFieldOf<T> = CreditField & { key: Exclude<keyof T, 'notes'> & string }
+
+export const CREDIT_FIELDS: { [T in CreditType]: CreditFieldOf<CreditDetailsByType[T]>[] } = {
+  'Childcare Expenses': [
+    { key: 'providerName', label: 'Provider Name', kind: 'text' },
+    { key: 'providerAddress', label: 'Provider Address', kind: 'text' },
+    { key: 'providerTaxId', label: 'Provider EIN or SSN', kind: 'taxId' },
+    { key: 'amountPaid', label: 'Amount Paid', kind: 'amount' },
+    { key: 'dependentId', label: 'Dependent Cared For', kind: 'dependent' }
+  ],
+  'Education Expenses (Form 1098-T)': [
+    { key: 'student', label: 'Student', kind: 'person' },
+    { key: 'institution', label: 'Institution', kind: 'text' },
+    { key: 'tuitionPaid', label: 'Tuition Paid (1098-T Box 1)', kind: 'amount' },
+    { key: 'scholarships', label: 'Scholarships or Grants (1098-T Box 5)', kind: 'amount' }
+  ],
+  'Adoption Expenses': [
+    { key: 'childName', label: 'Child Adopted', kind: 'text' },
+    { key: 'expensesPaid', label: 'Qualified Expenses Paid', kind: 'amount' },
+    { key: 'adoptionFinal', label: 'Adoption Final This Year', kind: 'yesNo' },
+    { key: 'specialNeeds', label: 'Special Needs Child', kind: 'yesNo' }
+  ],
+  'Mortgage Interest': [
+    { key: 'lender', label: 'Lender', kind: 'text' },
+    { key: 'interestPaid', label: 'Mortgage Interest (1098 Box 1)', kind: 'amount' },
+    { key: 'pointsPaid', label: 'Points Paid (1098 Box 6)', kind: 'amount' }
+  ],
+  'Private Mortgage Insurance (PMI)': [
+    { key: 'lender', label: 'Lender', kind: 'text' },
+    { key: 'premiumsPaid', label: 'Premiums Paid (1098 Box 5)', kind: 'amount' }
+  ],
+  'Investment Interest Expenses': [
+    { key: 'interestPaid', label: 'Investment Interest Paid', kind: 'amount' },
+    { key: 'netInvestmentIncome', label: 'Net Investment Income', kind: 'amount' },
+    { key: 'carryforward', label: 'Disallowed Interest Carried Forward from Last Year', kind: 'amount' }
+  ],
+  'Home Business Expenses': [
+    { key: 'officeSquareFeet', label: 'Office Area (sq ft)', kind: 'number' },
+    { key: 'homeSquareFeet', label: 'Total Home Area (sq ft)', kind: 'number' },
+    { key: 'rentOrMortgageInterest', label: 'Rent or Mortgage Interest', kind: 'amount' },
+    { key: 'utilities', label: 'Utilities', kind: 'amount' },
+    { key: 'insurance', label: 'Insurance', kind: 'amount' },
+    { key: 'repairs', label: 'Repairs and Maintenance', kind: 'amount' }
+  ],
+  'Rental Property Expenses': [
+    { key: 'propertyAddress', label: 'Property Address', kind: 'text' },
+    { key: 'daysRented', label: 'Days Rented', kind: 'number' },
+    { key: 'personalUseDays', label: 'Days of Personal Use', kind: 'number' },
+    { key: 'mortgageInterest', label: 'Mortgage Interest', kind: 'amount' },
+    { key: 'propertyTaxes', label: 'Property Taxes', kind: 'amount' },
+    { key: 'insurance', label: 'Insurance', kind: 'amount' },
+    { key: 'repairs', label: 'Repairs and Maintenance', kind: 'amount' },
+    { key: 'managementFees', label: 'Management Fees', kind: 'amount' }
+  ]
+}
+
+export const CREDIT_TYPES = Object.keys(CREDIT_FIELDS) as CreditType[]
+
+export const isCreditType = (value: unknown): value is CreditType => {
+  return typeof value === 'string' && value in CREDIT_FIELDS
+}
+
+// The field list without the per-type key checks, for code that handles
+// every credit type the same way
+export const creditFields = (type: CreditType): CreditField[] => CREDIT_FIELDS[type]
+
+export const creditFieldValue = (details: CreditDetails, key: string): string => {
+  return (details as unknown as Record<string, string>)[key] || ''
+}
+
+export const emptyCreditDetails = <T extends CreditType>(type: T): CreditDetailsByType[T] => {
+  const fields = creditFields(type).map(field => [field.key, ''])
+  return { ...Object.fromEntries(fields), notes: '' } as CreditDetailsByType[T]
+}
+
+export const hasCreditDetails = (details: CreditDetails): boolean => {
+  return Object.values(details).some(value => typeof value === 'string' && !!value.trim())
+}
+
+// Who the provider, lender or property was carries over to the next year;
+// amounts, answers and notes are that year's own
+const CARRIED_KINDS: CreditFieldKind[] = ['text', 'taxId', 'dependent', 'person']
+
+export const rolloverCreditDetails = <T extends CreditType>(type: T, details: CreditDetailsByType[T]): CreditDetailsByType[T] => {
+  const carried = creditFields(type)
+    .filter(field => CARRIED_KINDS.includes(field.kind))
+    .map(field => [field.key, creditFieldValue(details, field.key)])
+  return { ...emptyCreditDetails(type), ...Object.fromEntries(carried) }
+}
+
+// People a dependent or person field can point at
+export const creditPeople = (data: ChecklistData, kind: CreditFieldKind): [string, string][] => {
+  const dependents = data.dependents.map((dependent, index): [string, string] =>
+    [dependent.id, dependent.name || `Dependent ${index + 1}`])
+  if (kind === 'dependent') return dependents
+  return [
+    ['client', data.clientInfo.name || 'Taxpayer'],
+    ...(data.filingJointly ? [['spouse', data.spouseInfo.name || 'Spouse'] as [string, string]] : []),
+    ...dependents
+  ]
+}
+
+// A field's value as the report shows it; taxId values are left for the
+// caller to mask
+export const formatCreditValue = (field: CreditField, value: string, data: ChecklistData): string => {
+  if (!value) return ''
+  switch (field.kind) {
+    case 'amount':
+      return `$${value}`
+    case 'yesNo':
+      return value === 'yes' ? 'Yes' : 'No'
+    case 'dependent':
+    case 'person':
+      return creditPeople(data, field.kind).find(([id]) => id === value)?.[1] || ''
+    default:
+      return value
+  }
+}
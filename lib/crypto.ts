@@ -0,0 +1,162 @@
+// WebCrypto helpers for portal credentials
+
+export interface PasswordCredential {
+  algorithm: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string
+  hash: string
+}
+
+export const PBKDF2_ITERATIONS = 310000
+const SALT_BYTES = 16
+const HASH_BITS = 256
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+export const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export const randomBytes = (length: number): Uint8Array<ArrayBuffer> => {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+const importPasswordKey = (password: string): Promise<CryptoKey> => {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits', 'deriveKey']
+  )
+}
+
+const derivePasswordBits = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> => {
+  const baseKey = await importPasswordKey(password)
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    HASH_BITS
+  )
+  return new Uint8Array(bits)
+}
+
+// Constant-time comparison so a mismatch doesn't leak how many bytes matched
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i]
+  }
+  return diff === 0
+}
+
+export const hashPassword = async (password: string): Promise<PasswordCredential> => {
+  const salt = randomBytes(SALT_BYTES)
+  const hash = await derivePasswordBits(password, salt, PBKDF2_ITERATIONS)
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    hash: bytesToBase64(hash)
+  }
+}
+
+export const verifyPassword = async (password: string, credential: PasswordCredential): Promise<boolean> => {
+  const expected = base64ToBytes(credential.hash)
+  const actual = await derivePasswordBits(password, base64ToBytes(credential.salt), credential.iterations)
+  return bytesEqual(actual, expected)
+}
+
+// Older builds stored the raw password string under pwd_<email>; anything that
+// doesn't parse as a credential object is treated as one of those.
+export const parseCredential = (stored: string): PasswordCredential | null => {
+  try {
+    const parsed = JSON.parse(stored)
+    if (parsed && parsed.algorithm === 'PBKDF2-SHA256' && parsed.salt && parsed.hash && parsed.iterations) {
+      return parsed as PasswordCredential
+    }
+  } catch {
+    // Not JSON, so a legacy plaintext entry
+  }
+  return null
+}
+
+// AES-GCM encryption of saved checklist data with a password-derived key
+
+export interface EncryptionKey {
+  key: CryptoKey
+  salt: string
+  iterations: number
+}
+
+export interface EncryptedPayload {
+  iv: string
+  ciphertext: string
+}
+
+const IV_BYTES = 12
+
+export const deriveEncryptionKey = async (
+  password: string,
+  salt: string = bytesToBase64(randomBytes(SALT_BYTES)),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<EncryptionKey> => {
+  const baseKey = await importPasswordKey(password)
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+  return { key, salt, iterations }
+}
+
+export const encryptJSON = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = randomBytes(IV_BYTES)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  )
+  return {
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext))
+  }
+}
+
+export const decryptJSON = async <T = any>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(payload.iv) },
+    key,
+    base64ToBytes(payload.ciphertext)
+  )
+  return JSON.parse(new TextDecoder().decode(plaintext))
+}
+
+export const encryptBytes = async (key: CryptoKey, bytes: ArrayBuffer): Promise<{ iv: string, ciphertext: ArrayBuffer }> => {
+  const iv = randomBytes(IV_BYTES)
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes)
+  return { iv: bytesToBase64(iv), ciphertext }
+}
+
+export const decryptBytes = (key: CryptoKey, iv: string, ciphertext: ArrayBuffer): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, ciphertext)
+}
+
+export const sha256Hex = async (bytes: ArrayBuffer): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,229 @@
+// IndexedDB Helper Functions
+
+import {
+  DB_VERSION, PROFILE_STORE, CHECKLIST_STORE, DOCUMENT_STORE, BLOB_STORE, SNAPSHOT_STORE,
+  ProfileRecord, ChecklistRecord, DocumentRecord, BlobRecord, SnapshotRecord, runDBMigrations
+} from '@/lib/migrations'
+import { ChecklistConflictError } from '@/lib/conflicts'
+
+const DB_NAME = 'TaxChecklistDB'
+
+// Thrown when a tab still running an older version of the portal holds the
+// database open, so it can't be upgraded
+export class DatabaseBlockedError extends Error {
+  constructor(message: string = 'The portal is open in another tab on an older version. Close that tab, then reload this one.') {
+    super(message)
+    this.name = 'DatabaseBlockedError'
+  }
+}
+
+// One connection per tab, shared by every call. It is closed as soon as
+// another tab needs to upgrade the database, and the next call reopens it
+// at whatever version is then current.
+let connection: Promise<IDBDatabase> | null = null
+
+const openConnection = (): Promise<IDBDatabase> => {
+  const opening: Promise<IDBDatabase> = new Promise((resolve, reject) => {
+    let settled = false
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = () => {
+      settled = true
+      reject(request.error)
+    }
+    request.onblocked = () => {
+      settled = true
+      reject(new DatabaseBlockedError())
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      const forget = () => {
+        if (connection === opening) connection = null
+      }
+      db.onversionchange = () => {
+        db.close()
+        forget()
+      }
+      db.onclose = forget
+      // A blocked open still completes once the other tab lets go, after
+      // the caller has been told; the upgrade is kept, the connection isn't
+      if (settled) {
+        db.close()
+        forget()
+        return
+      }
+      settled = true
+      resolve(db)
+    }
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const transaction = request.transaction!
+      // Aborting the upgrade rejects the open instead of leaving a half-migrated database
+      runDBMigrations(db, transaction, event.oldVersion, event.newVersion || DB_VERSION).catch(error => {
+        console.error('Error migrating database:', error)
+        transaction.abort()
+      })
+    }
+  })
+  return opening
+}
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    const opening = openConnection()
+    connection = opening
+    opening.catch(() => {
+      if (connection === opening) connection = null
+    })
+  }
+  return connection
+}
+
+const getRecord = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly')
+    const store = transaction.objectStore(storeName)
+    const request = store.get(key)
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const getProfile = (email: string): Promise<ProfileRecord | undefined> => {
+  return getRecord<ProfileRecord>(PROFILE_STORE, email)
+}
+
+export const getChecklistRecord = (email: string, taxpayerId: string, taxYear: number): Promise<ChecklistRecord | undefined> => {
+  return getRecord<ChecklistRecord>(CHECKLIST_STORE, [email, taxpayerId, taxYear])
+}
+
+const getAllByEmail = async <T>(storeName: string, email: string): Promise<T[]> => {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly')
+    const request = transaction.objectStore(storeName).index('email').getAll(email)
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const getChecklistRecords = (email: string): Promise<ChecklistRecord[]> => {
+  return getAllByEmail<ChecklistRecord>(CHECKLIST_STORE, email)
+}
+
+export const getSnapshots = (email: string): Promise<SnapshotRecord[]> => {
+  return getAllByEmail<SnapshotRecord>(SNAPSHOT_STORE, email)
+}
+
+export const getLegacyDocuments = (email: string): Promise<DocumentRecord[]> => {
+  return getAllByEmail<DocumentRecord>(DOCUMENT_STORE, email)
+}
+
+export const getBlobs = (email: string): Promise<BlobRecord[]> => {
+  return getAllByEmail<BlobRecord>(BLOB_STORE, email)
+}
+
+// Writes the profile, one checklist's answers, any new document Blobs and a
+// snapshot in one transaction. Snapshots past retention and this account's
+// Blobs that nothing references any more are dropped, along with any version
+// 2 documents already migrated to Blobs. The checklist must carry the revision
+// after the stored one; otherwise nothing is written and the promise rejects
+// with a ChecklistConflictError.
+export const saveChecklistRecords = async (
+  profile: ProfileRecord,
+  checklist: ChecklistRecord,
+  newBlobs: BlobRecord[],
+  referencedHashes: string[],
+  snapshot: SnapshotRecord | null = null,
+  expiredSnapshotIds: string[] = []
+): Promise<void> => {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROFILE_STORE, CHECKLIST_STORE, BLOB_STORE, DOCUMENT_STORE, SNAPSHOT_STORE], 'readwrite')
+    let conflict = false
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(conflict ? new ChecklistConflictError() : transaction.error)
+
+    const checklists = transaction.objectStore(CHECKLIST_STORE)
+    const stored = checklists.get([checklist.email, checklist.taxpayerId, checklist.taxYear])
+    stored.onsuccess = () => {
+      if ((stored.result?.revision || 0) !== (checklist.revision || 0) - 1) {
+        conflict = true
+        transaction.abort()
+        return
+      }
+      writeChecklistRecords(transaction, profile, checklist, newBlobs, referencedHashes, snapshot, expiredSnapshotIds)
+    }
+  })
+}
+
+const writeChecklistRecords = (
+  transaction: IDBTransaction,
+  profile: ProfileRecord,
+  checklist: ChecklistRecord,
+  newBlobs: BlobRecord[],
+  referencedHashes: string[],
+  snapshot: SnapshotRecord | null,
+  expiredSnapshotIds: string[]
+) => {
+  transaction.objectStore(PROFILE_STORE).put(profile)
+  transaction.objectStore(CHECKLIST_STORE).put(checklist)
+
+  const snapshots = transaction.objectStore(SNAPSHOT_STORE)
+  if (snapshot) snapshots.put(snapshot)
+  expiredSnapshotIds.forEach(id => snapshots.delete(id))
+
+  const blobs = transaction.objectStore(BLOB_STORE)
+  newBlobs.forEach(blob => blobs.put(blob))
+
+  const keep = new Set(referencedHashes)
+  const blobCursor = blobs.index('email').openCursor(IDBKeyRange.only(profile.email))
+  blobCursor.onsuccess = () => {
+    const cursor = blobCursor.result
+    if (!cursor) return
+    if (!keep.has(cursor.value.hash)) {
+      cursor.delete()
+    }
+    cursor.continue()
+  }
+
+  const legacyDocuments = transaction.objectStore(DOCUMENT_STORE)
+  const legacyCursor = legacyDocuments.index('email').openKeyCursor(IDBKeyRange.only(profile.email))
+  legacyCursor.onsuccess = () => {
+    const cursor = legacyCursor.result
+    if (!cursor) return
+    legacyDocuments.delete(cursor.primaryKey)
+    cursor.continue()
+  }
+}
+
+// Writes an imported checklist and its Blobs alongside whatever the account
+// already holds, without dropping anything. The import counts as a new
+// revision of any checklist it replaces.
+export const restoreChecklistRecords = async (
+  profile: ProfileRecord,
+  checklist: ChecklistRecord,
+  blobs: BlobRecord[]
+): Promise<void> => {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PROFILE_STORE, CHECKLIST_STORE, BLOB_STORE], 'readwrite')
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+
+    transaction.objectStore(PROFILE_STORE).put(profile)
+    const checklists = transaction.objectStore(CHECKLIST_STORE)
+    const stored = checklists.get([checklist.email, checklist.taxpayerId, checklist.taxYear])
+    stored.onsuccess = () => {
+      checklists.put({ ...checklist, revision: (stored.result?.revision || 0) + 1 })
+    }
+    const blobStore = transaction.objectStore(BLOB_STORE)
+    blobs.forEach(blob => blobStore.put(blob))
+  })
+}
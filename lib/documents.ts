@@ -0,0 +1,40 @@
+// Uploaded documents are kept as Blobs, addressed by the SHA-256 of their
+// contents, so the same file uploaded twice is only stored once
+
+import { sha256Hex } from '@/lib/crypto'
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  return sha256Hex(await blob.arrayBuffer())
+}
+
+export const blobToDataURL = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export const dataURLToBlob = async (dataURL: string): Promise<Blob> => {
+  const response = await fetch(dataURL)
+  return response.blob()
+}
+
+// The types a document may be embedded as. The type is whatever the client
+// sent, so anything else is never put into a data URL.
+const EMBEDDABLE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf']
+
+export const isEmbeddableType = (type: string): boolean => EMBEDDABLE_TYPES.includes(type)
+
+// Data URLs for the given hashes, for embedding documents in the HTML report
+export const documentDataURLs = async (blobs: Map<string, Blob>, hashes: string[]): Promise<Record<string, string>> => {
+  const urls: Record<string, string> = {}
+  for (const hash of hashes) {
+    const blob = blobs.get(hash)
+    if (blob && !urls[hash]) {
+      urls[hash] = await blobToDataURL(blob)
+    }
+  }
+  return urls
+}
@@ -0,0 +1,200 @@
+// Income types and the boxes captured from each W-2 and 1099. A selected
+// income type can hold any number of entries, one per form received, each
+// linked to the uploaded files that back it, so the preparer gets the
+// numbers without transcribing them. Types without a form here, such as
+// rental income, are documents only.
+
+export const INCOME_TYPES = [
+  'W-2 Forms (Employment Income)',
+  '1099-MISC (Miscellaneous Income)',
+  '1099-NEC (Non-Employee Compensation)',
+  '1099-INT (Interest Income)',
+  '1099-DIV (Dividend Income)',
+  '1099-B (Proceeds from Broker Transactions)',
+  '1099-K (Payment Card and Third Party Network Transactions)',
+  '1099-R (Retirement Distributions)',
+  '1099-SSA (Social Security Benefits)',
+  '1099-G (Government Payments)',
+  'Rental Property Income',
+  'Capital Gains/Losses',
+  'Trading Activity (Traditional/Virtual Currency)'
+]
+
+export interface W2Values {
+  employer: string
+  employerEin: string
+  wages: string
+  federalWithholding: string
+  state: string
+  stateWages: string
+  stateWithholding: string
+}
+
+export interface Form1099NecValues {
+  payer: string
+  payerTin: string
+  compensation: string
+  federalWithholding: string
+}
+
+export interface Form1099IntValues {
+  payer: string
+  interest: string
+  treasuryInterest: string
+  federalWithholding: string
+  taxExemptInterest: string
+}
+
+export interface Form1099DivValues {
+  payer: string
+  ordinaryDividends: string
+  qualifiedDividends: string
+  capitalGainDistributions: string
+  federalWithholding: string
+}
+
+export interface Form1099RValues {
+  payer: string
+  grossDistribution: string
+  taxableAmount: string
+  federalWithholding: string
+  distributionCode: string
+}
+
+export interface Form1099SsaValues {
+  beneficiary: string
+  netBenefits: string
+  federalWithholding: string
+}
+
+export interface Form1099GValues {
+  payer: string
+  unemployment: string
+  stateTaxRefund: string
+  federalWithholding: string
+}
+
+export interface IncomeValuesByType {
+  'W-2 Forms (Employment Income)': W2Values
+  '1099-NEC (Non-Employee Compensation)': Form1099NecValues
+  '1099-INT (Interest Income)': Form1099IntValues
+  '1099-DIV (Dividend Income)': Form1099DivValues
+  '1099-R (Retirement Distributions)': Form1099RValues
+  '1099-SSA (Social Security Benefits)': Form1099SsaValues
+  '1099-G (Government Payments)': Form1099GValues
+}
+
+export type IncomeFormType = keyof IncomeValuesByType
+
+export type IncomeValues = IncomeValuesByType[IncomeFormType]
+
+// One form received, with the hashes of the uploaded files it was read from
+export interface IncomeEntry {
+  id: string
+  values: IncomeValues
+  fileHashes: string[]
+}
+
+// Amount fields are totalled per income type in the report
+export type IncomeFieldKind = 'text' | 'amount' | 'taxId'
+
+export interface IncomeField {
+  key: string
+  label: string
+  kind: IncomeFieldKind
+}
+
+// A field of one form's values, so a misspelt key fails to compile
+type IncomeFieldOf<T> = IncomeField & { key: keyof T & string }
+
+export const INCOME_FORMS: { [T in IncomeFormType]: IncomeFieldOf<IncomeValuesByType[T]>[] } = {
+  'W-2 Forms (Employment Income)': [
+    { key: 'employer', label: 'Employer Name', kind: 'text' },
+    { key: 'employerEin', label: 'Employer EIN (Box b)', kind: 'taxId' },
+    { key: 'wages', label: 'Wages (Box 1)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 2)', kind: 'amount' },
+    { key: 'state', label: 'State (Box 15)', kind: 'text' },
+    { key: 'stateWages', label: 'State Wages (Box 16)', kind: 'amount' },
+    { key: 'stateWithholding', label: 'State Tax Withheld (Box 17)', kind: 'amount' }
+  ],
+  '1099-NEC (Non-Employee Compensation)': [
+    { key: 'payer', label: 'Payer Name', kind: 'text' },
+    { key: 'payerTin', label: 'Payer TIN', kind: 'taxId' },
+    { key: 'compensation', label: 'Nonemployee Compensation (Box 1)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 4)', kind: 'amount' }
+  ],
+  '1099-INT (Interest Income)': [
+    { key: 'payer', label: 'Payer Name', kind: 'text' },
+    { key: 'interest', label: 'Interest Income (Box 1)', kind: 'amount' },
+    { key: 'treasuryInterest', label: 'U.S. Treasury Interest (Box 3)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 4)', kind: 'amount' },
+    { key: 'taxExemptInterest', label: 'Tax-Exempt Interest (Box 8)', kind: 'amount' }
+  ],
+  '1099-DIV (Dividend Income)': [
+    { key: 'payer', label: 'Payer Name', kind: 'text' },
+    { key: 'ordinaryDividends', label: 'Ordinary Dividends (Box 1a)', kind: 'amount' },
+    { key: 'qualifiedDividends', label: 'Qualified Dividends (Box 1b)', kind: 'amount' },
+    { key: 'capitalGainDistributions', label: 'Capital Gain Distributions (Box 2a)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 4)', kind: 'amount' }
+  ],
+  '1099-R (Retirement Distributions)': [
+    { key: 'payer', label: 'Payer Name', kind: 'text' },
+    { key: 'grossDistribution', label: 'Gross Distribution (Box 1)', kind: 'amount' },
+    { key: 'taxableAmount', label: 'Taxable Amount (Box 2a)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 4)', kind: 'amount' },
+    { key: 'distributionCode', label: 'Distribution Code (Box 7)', kind: 'text' }
+  ],
+  '1099-SSA (Social Security Benefits)': [
+    { key: 'beneficiary', label: 'Beneficiary', kind: 'text' },
+    { key: 'netBenefits', label: 'Net Benefits (Box 5)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 6)', kind: 'amount' }
+  ],
+  '1099-G (Government Payments)': [
+    { key: 'payer', label: 'Payer Name', kind: 'text' },
+    { key: 'unemployment', label: 'Unemployment Compensation (Box 1)', kind: 'amount' },
+    { key: 'stateTaxRefund', label: 'State or Local Tax Refund (Box 2)', kind: 'amount' },
+    { key: 'federalWithholding', label: 'Federal Tax Withheld (Box 4)', kind: 'amount' }
+  ]
+}
+
+export const isIncomeFormType = (type: string): type is IncomeFormType => type in INCOME_FORMS
+
+// The fields captured for an income type, or none for document-only types
+export const incomeFields = (type: string): IncomeField[] => isIncomeFormType(type) ? INCOME_FORMS[type] : []
+
+// Short name for the form, as on the Add button: 'W-2', '1099-NEC'
+export const incomeFormName = (type: string): string => type.split(' ')[0]
+
+export const incomeFieldValue = (values: IncomeValues, key: string): string => {
+  return (values as unknown as Record<string, string>)[key] || ''
+}
+
+export const emptyIncomeEntry = (type: IncomeFormType): IncomeEntry => ({
+  id: crypto.randomUUID(),
+  values: Object.fromEntries(incomeFields(type).map(field => [field.key, ''])) as unknown as IncomeValues,
+  fileHashes: []
+})
+
+// Sum of each amount field over the entries, for fields with any amount
+export const incomeTotals = (type: string, entries: IncomeEntry[]): { field: IncomeField, total: number }[] => {
+  return incomeFields(type)
+    .filter(field => field.kind === 'amount')
+    .map(field => ({
+      field,
+      total: entries.reduce((sum, entry) => sum + (Number(incomeFieldValue(entry.values, field.key)) || 0), 0)
+    }))
+    .filter(({ total }) => total !== 0)
+}
+
+// Next year's forms usually come from the same employers and payers, so
+// their names and ids carry over; amounts and file links do not
+export const rolloverIncomeEntries = (type: string, entries: IncomeEntry[]): IncomeEntry[] => {
+  return entries.map(entry => ({
+    id: crypto.randomUUID(),
+    values: Object.fromEntries(incomeFields(type).map(field => [
+      field.key,
+      field.kind === 'amount' ? '' : incomeFieldValue(entry.values, field.key)
+    ])) as unknown as IncomeValues,
+    fileHashes: []
+  }))
+}
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { LEGACY_TAX_YEAR, PRIMARY_TAXPAYER_ID } from '@/lib/checklist'
+import {
+  CHECKLIST_MIGRATIONS, CHECKLIST_SCHEMA_VERSION, MigrationContext,
+  answersToChecklistRecord, migrateChecklistData, splitV1Record
+} from '@/lib/migrations'
+import {
+  LEGACY_IMAGE_DATA_URL, V1_ENCRYPTED_RECORD, V1_PLAINTEXT_RECORD, V2_ANSWERS_PAYLOAD, V2_ANSWERS_RECORD,
+  V2_DOCUMENTS, V4_CHECKLIST_RECORD, V5_CHECKLIST_RECORD
+} from '@/lib/__fixtures__/checklist-records'
+
+const legacyImageHash = createHash('sha256')
+  .update(Buffer.from(LEGACY_IMAGE_DATA_URL.split(',')[1], 'base64'))
+  .digest('hex')
+
+const newContext = (legacyDocuments = new Map<string, string>()): MigrationContext => ({ legacyDocuments, blobs: new Map() })
+
+describe('splitV1Record', () => {
+  it('splits a plaintext record and drops the password', () => {
+    const { profile, answers } = splitV1Record(V1_PLAINTEXT_RECORD)
+
+    expect(profile).toEqual({ email: 'jane@example.com', lastSaved: '2025-02-01T10:00:00.000Z' })
+    expect(answers.email).toBe('jane@example.com')
+    expect(answers.data).not.toHaveProperty('password')
+    expect(answers.data).not.toHaveProperty('email')
+    expect(answers.data.clientInfo.name).toBe('Jane Doe')
+  })
+
+  it('keeps an encrypted record encrypted', () => {
+    const { profile, answers } = splitV1Record(V1_ENCRYPTED_RECORD)
+
+    expect(profile).toEqual({
+      email: 'jane@example.com',
+      lastSaved: '2025-02-02T10:00:00.000Z',
+      encryption: V1_ENCRYPTED_RECORD.encryption
+    })
+    expect(answers).toEqual({ email: 'jane@example.com', iv: V1_ENCRYPTED_RECORD.iv, ciphertext: V1_ENCRYPTED_RECORD.ciphertext })
+  })
+})
+
+describe('answersToChecklistRecord', () => {
+  it('files version 2 answers under the primary taxpayer and the legacy tax year', () => {
+    expect(answersToChecklistRecord(V2_ANSWERS_RECORD, '2025-02-03T10:00:00.000Z')).toEqual({
+      ...V2_ANSWERS_RECORD,
+      taxpayerId: PRIMARY_TAXPAYER_ID,
+      taxYear: LEGACY_TAX_YEAR,
+      lastSaved: '2025-02-03T10:00:00.000Z'
+    })
+  })
+})
+
+describe('CHECKLIST_MIGRATIONS', () => {
+  it('has one migration for every schema version after the first', () => {
+    const versions = Object.keys(CHECKLIST_MIGRATIONS).map(Number).sort((a, b) => a - b)
+    expect(versions).toEqual(Array.from({ length: CHECKLIST_SCHEMA_VERSION - 1 }, (_, index) => index + 2))
+  })
+})
+
+describe('migrateChecklistData', () => {
+  it('upgrades a version 1 plaintext record through every migration', async () => {
+    const context = newContext()
+    const data = await migrateChecklistData(splitV1Record(V1_PLAINTEXT_RECORD).answers.data, context)
+
+    expect(data.schemaVersion).toBe(CHECKLIST_SCHEMA_VERSION)
+    expect(data).not.toHaveProperty('password')
+    // 4 and 5
+    expect(data.taxYear).toBe(LEGACY_TAX_YEAR)
+    expect(data.taxpayerId).toBe(PRIMARY_TAXPAYER_ID)
+    // 3: inline files become Blob references
+    expect(data.documentUploads.clientDL).toEqual({ name: 'license.png', type: 'image/png', hash: legacyImageHash, size: 8 })
+    expect(data.documentUploads.incomeDocuments).toEqual([])
+    expect(data.incomeData[0].files[0].hash).toBe(legacyImageHash)
+    expect(context.blobs.get(legacyImageHash)?.size).toBe(8)
+    // 6
+    expect(data.currentStep).toBe('dependents')
+    // 7
+    expect(data.signature).toEqual({ name: 'Jane Doe', image: '', signedAt: '', contentHash: '' })
+    expect(data.spouseSignature).toBeNull()
+    // 8
+    expect(data.creditData[0].details).toMatchObject({ providerName: '', amountPaid: '', notes: 'ABC Daycare, $4,000' })
+    // 9
+    expect(data.incomeData[0].entries).toEqual([])
+    expect(data.adjustmentData).toEqual(V1_PLAINTEXT_RECORD.adjustmentData)
+  })
+
+  it('reads version 2 uploads from the documents store', async () => {
+    const context = newContext(V2_DOCUMENTS)
+    const data = await migrateChecklistData(V2_ANSWERS_PAYLOAD, context)
+
+    expect(data.incomeData[0].files).toEqual([{ name: 'w2.png', type: 'image/png', hash: legacyImageHash, size: 8 }])
+    expect(context.blobs.has(legacyImageHash)).toBe(true)
+    expect(data.currentStep).toBe('review')
+    expect(data.signature).toBeNull()
+    expect(data.taxYear).toBe(LEGACY_TAX_YEAR)
+  })
+
+  it('upgrades a version 4 checklist record', async () => {
+    const context = newContext()
+    const data = await migrateChecklistData(V4_CHECKLIST_RECORD.data, context)
+
+    expect(data.taxYear).toBe(2024)
+    expect(data.taxpayerId).toBe(PRIMARY_TAXPAYER_ID)
+    expect(data.currentStep).toBe('client')
+    expect(data.incomeData[0]).toEqual({ ...V4_CHECKLIST_RECORD.data.incomeData[0], entries: [] })
+    expect(data.creditData[0].details).toEqual({ lender: '', interestPaid: '', pointsPaid: '', notes: '' })
+    expect(context.blobs.size).toBe(0)
+  })
+
+  it('keeps the taxpayer of a version 5 checklist record', async () => {
+    const data = await migrateChecklistData(V5_CHECKLIST_RECORD.data)
+
+    expect(data.taxpayerId).toBe(V5_CHECKLIST_RECORD.taxpayerId)
+    expect(data.taxYear).toBe(2024)
+    expect(data.schemaVersion).toBe(CHECKLIST_SCHEMA_VERSION)
+  })
+
+  it('leaves a current checklist unchanged', async () => {
+    const current = await migrateChecklistData(V5_CHECKLIST_RECORD.data)
+    expect(await migrateChecklistData(current)).toEqual(current)
+  })
+})
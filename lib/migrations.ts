@@ -0,0 +1,296 @@
+// Schema migrations for saved checklists.
+//
+// Two layers are versioned separately:
+// - DB_MIGRATIONS reshape the IndexedDB object stores and run inside
+//   onupgradeneeded, keyed by the database version they upgrade to. They only
+//   move records around, since the checklist content is encrypted.
+// - CHECKLIST_MIGRATIONS upgrade the decrypted checklist payload, keyed by
+//   the schemaVersion they produce, and run after the client unlocks it.
+// The record-level helpers are pure functions so they can be checked against
+// fixture records from older versions.
+
+import { ChecklistData, EMPTY_CHECKLIST_DATA, LEGACY_TAX_YEAR, PRIMARY_TAXPAYER_ID, Signature, UploadedFile } from '@/lib/checklist'
+import { hashBlob, dataURLToBlob } from '@/lib/documents'
+import { parseStepId } from '@/lib/steps'
+import { emptyCreditDetails, isCreditType } from '@/lib/credits'
+
+export const DB_VERSION = 6
+export const CHECKLIST_SCHEMA_VERSION = 9
+
+export const PROFILE_STORE = 'profiles'
+export const ANSWERS_STORE = 'answers'
+export const DOCUMENT_STORE = 'documents'
+export const BLOB_STORE = 'blobs'
+export const CHECKLIST_STORE = 'checklists'
+export const SNAPSHOT_STORE = 'snapshots'
+
+// Clear-text account metadata: enough to derive the key, show save times and
+// reopen the taxpayer and tax year the client last worked on
+export interface ProfileRecord {
+  email: string
+  lastSaved: string
+  taxpayerId?: string
+  taxYear?: number
+  encryption?: {
+    algorithm: 'AES-GCM'
+    salt: string
+    iterations: number
+  }
+}
+
+// Versions 2 and 3 kept one set of encrypted answers per account. Records
+// carried over from before encryption keep their plaintext in data.
+export interface AnswersRecord {
+  email: string
+  iv?: string
+  ciphertext?: string
+  data?: any
+}
+
+// Version 2 kept one encrypted data URL per upload, referenced from the
+// answers by file id. Read only to migrate, then deleted on the next save.
+export interface DocumentRecord {
+  id: string
+  email: string
+  iv: string
+  ciphertext: string
+}
+
+// Version 1 kept everything in one userData record per email: either the
+// whole checklist in plain text (with the old plaintext password) or, once
+// encryption landed, clear metadata around one ciphertext.
+export const splitV1Record = (record: any): { profile: ProfileRecord, answers: AnswersRecord } => {
+  const { email, lastSaved = '', encryption, iv, ciphertext, password, ...data } = record
+
+  if (ciphertext) {
+    return {
+      profile: { email, lastSaved, encryption },
+      answers: { email, iv, ciphertext }
+    }
+  }
+
+  return {
+    profile: { email, lastSaved },
+    answers: { email, data }
+  }
+}
+
+// Encrypted answers for one taxpayer and tax year, with documents referenced
+// by hash. Records carried over from before encryption keep their plaintext
+// in data until next save. The revision counts writes, so a tab holding an
+// older copy can tell; records from before it was added count as 0.
+export interface ChecklistRecord {
+  email: string
+  taxpayerId: string
+  taxYear: number
+  lastSaved: string
+  revision?: number
+  iv?: string
+  ciphertext?: string
+  data?: any
+}
+
+// One encrypted document Blob per account and content hash, shared by every
+// checklist of the account that references it
+export interface BlobRecord {
+  email: string
+  hash: string
+  type: string
+  size: number
+  iv: string
+  data: Blob
+}
+
+// An encrypted earlier version of one checklist, for version history
+export interface SnapshotRecord {
+  id: string
+  email: string
+  taxpayerId: string
+  taxYear: number
+  savedAt: string
+  iv: string
+  ciphertext: string
+}
+
+// Later migrations read what earlier ones wrote, so each one finishes its
+// requests before the next starts
+type DBMigration = (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const DB_MIGRATIONS: Record<number, DBMigration> = {
+  1: (db) => {
+    db.createObjectStore('userData', { keyPath: 'email' })
+  },
+
+  2: async (db, transaction) => {
+    const profiles = db.createObjectStore(PROFILE_STORE, { keyPath: 'email' })
+    const answers = db.createObjectStore(ANSWERS_STORE, { keyPath: 'email' })
+    const documents = db.createObjectStore(DOCUMENT_STORE, { keyPath: 'id' })
+    documents.createIndex('email', 'email', { unique: false })
+
+    for (const record of await requestResult(transaction.objectStore('userData').getAll())) {
+      const split = splitV1Record(record)
+      profiles.put(split.profile)
+      answers.put(split.answers)
+    }
+    // Documents are still embedded in the answers; they move to their own
+    // store the next time the client saves
+    db.deleteObjectStore('userData')
+  },
+
+  3: (db) => {
+    const blobs = db.createObjectStore(BLOB_STORE, { keyPath: ['email', 'hash'] })
+    blobs.createIndex('email', 'email', { unique: false })
+  },
+
+  4: async (db, transaction) => {
+    const checklists = db.createObjectStore(CHECKLIST_STORE, { keyPath: ['email', 'taxYear'] })
+    checklists.createIndex('email', 'email', { unique: false })
+
+    const profiles: ProfileRecord[] = await requestResult(transaction.objectStore(PROFILE_STORE).getAll())
+    const lastSaved = new Map(profiles.map(profile => [profile.email, profile.lastSaved]))
+    const answers: AnswersRecord[] = await requestResult(transaction.objectStore(ANSWERS_STORE).getAll())
+    for (const record of answers) {
+      checklists.put(answersToChecklistRecord(record, lastSaved.get(record.email) || ''))
+    }
+    db.deleteObjectStore(ANSWERS_STORE)
+  },
+
+  // Checklists are keyed by taxpayer as well; the key path can't change in
+  // place, so the store is rebuilt
+  5: async (db, transaction) => {
+    const records: ChecklistRecord[] = await requestResult(transaction.objectStore(CHECKLIST_STORE).getAll())
+    db.deleteObjectStore(CHECKLIST_STORE)
+    const checklists = db.createObjectStore(CHECKLIST_STORE, { keyPath: ['email', 'taxpayerId', 'taxYear'] })
+    checklists.createIndex('email', 'email', { unique: false })
+    for (const record of records) {
+      checklists.put({ ...record, taxpayerId: record.taxpayerId || PRIMARY_TAXPAYER_ID })
+    }
+  },
+
+  6: (db) => {
+    const snapshots = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' })
+    snapshots.createIndex('email', 'email', { unique: false })
+  }
+}
+
+// Everything saved before version 4 belongs to the one season the portal
+// supported at the time
+export const answersToChecklistRecord = (answers: AnswersRecord, lastSaved: string): ChecklistRecord => {
+  return { ...answers, taxpayerId: PRIMARY_TAXPAYER_ID, taxYear: LEGACY_TAX_YEAR, lastSaved }
+}
+
+export const runDBMigrations = async (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number) => {
+  for (let version = oldVersion + 1; version <= newVersion; version++) {
+    await DB_MIGRATIONS[version](db, transaction)
+  }
+}
+
+// Legacy document contents the payload migrations can draw on, and the Blobs
+// they produce for the caller to store
+export interface MigrationContext {
+  legacyDocuments: Map<string, string>
+  blobs: Map<string, Blob>
+}
+
+type ChecklistMigration = (data: any, context: MigrationContext) => any | Promise<any>
+
+export const CHECKLIST_MIGRATIONS: Record<number, ChecklistMigration> = {
+  // Version 1 payloads are the original flat record: fields may be missing,
+  // and the plaintext password and record keys may still be mixed in. The
+  // tax year and taxpayer are left unset for migrations 4 and 5.
+  2: (data) => {
+    const { password, email, lastSaved, encryption, ...rest } = data
+    return {
+      ...EMPTY_CHECKLIST_DATA,
+      ...rest,
+      taxYear: rest.taxYear,
+      taxpayerId: rest.taxpayerId,
+      documentUploads: { incomeDocuments: [], ...rest.documentUploads }
+    }
+  },
+
+  // Files used to carry their contents as a base64 data URL, either inline
+  // (version 1) or in the documents store under their id (version 2). They
+  // now reference a Blob by content hash.
+  3: async (data, context) => {
+    const toBlobReference = async (file: any): Promise<UploadedFile> => {
+      if (file.hash) return file
+      const dataURL = file.data || context.legacyDocuments.get(file.id) || ''
+      const blob = dataURL ? await dataURLToBlob(dataURL) : new Blob([], { type: file.type })
+      const hash = await hashBlob(blob)
+      context.blobs.set(hash, blob)
+      return { name: file.name, type: file.type, hash, size: blob.size }
+    }
+    const mapFiles = (files: any[] = []) => Promise.all(files.map(toBlobReference))
+    const uploads = data.documentUploads
+
+    return {
+      ...data,
+      documentUploads: {
+        ...uploads,
+        clientDL: uploads.clientDL && await toBlobReference(uploads.clientDL),
+        spouseDL: uploads.spouseDL && await toBlobReference(uploads.spouseDL),
+        lastYearTax: uploads.lastYearTax && await toBlobReference(uploads.lastYearTax),
+        irsPin: uploads.irsPin && await toBlobReference(uploads.irsPin),
+        incomeDocuments: await mapFiles(uploads.incomeDocuments)
+      },
+      incomeData: await Promise.all(data.incomeData.map(async (item: any) => ({ ...item, files: await mapFiles(item.files) }))),
+      adjustmentData: await Promise.all(data.adjustmentData.map(async (item: any) => ({ ...item, files: await mapFiles(item.files) }))),
+      creditData: await Promise.all(data.creditData.map(async (item: any) => ({ ...item, files: await mapFiles(item.files) })))
+    }
+  },
+
+  4: (data) => ({ ...data, taxYear: data.taxYear || LEGACY_TAX_YEAR }),
+
+  5: (data) => ({ ...data, taxpayerId: data.taxpayerId || PRIMARY_TAXPAYER_ID }),
+
+  // The current step was an index into the step list; it is now the step's id
+  6: (data) => ({ ...data, currentStep: parseStepId(data.currentStep) }),
+
+  // Signatures were a typed name. The name is kept, but without a drawing or
+  // attestation it no longer counts as signed.
+  7: (data) => {
+    const toSignature = (name: unknown): Signature | null => {
+      return typeof name === 'string' && name ? { name, image: '', signedAt: '', contentHash: '' } : null
+    }
+    return { ...data, signature: toSignature(data.signature), spouseSignature: toSignature(data.spouseSignature) }
+  },
+
+  // Credit details were one free-text box; what was typed there becomes the
+  // notes of the type's structured details
+  8: (data) => ({
+    ...data,
+    creditData: data.creditData.filter((item: any) => isCreditType(item.type)).map((item: any) => ({
+      ...item,
+      details: typeof item.details === 'object' && item.details
+        ? { ...emptyCreditDetails(item.type), ...item.details }
+        : { ...emptyCreditDetails(item.type), notes: item.details ? String(item.details) : '' }
+    }))
+  }),
+
+  // Income types gained structured entries; existing ones start without any
+  9: (data) => ({
+    ...data,
+    incomeData: data.incomeData.map((item: any) => ({ ...item, entries: item.entries || [] }))
+  })
+}
+
+export const migrateChecklistData = async (
+  data: any,
+  context: MigrationContext = { legacyDocuments: new Map(), blobs: new Map() }
+): Promise<ChecklistData> => {
+  let migrated = data
+  let version = data.schemaVersion || 1
+  while (version < CHECKLIST_SCHEMA_VERSION) {
+    version++
+    migrated = await CHECKLIST_MIGRATIONS[version](migrated, context)
+  }
+  return { ...migrated, schemaVersion: version }
+}
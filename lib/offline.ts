@@ -0,0 +1,94 @@
+// Offline support: the service worker that caches the app shell, and the
+// queue of checklists saved on this device but not yet synced to the server.
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+// Registers the service worker and asks it to cache the scripts and styles
+// this page has already loaded, plus any extra URLs such as lazily loaded
+// assets, since the first visit isn't controlled by the worker yet
+export const registerServiceWorker = async (extraUrls: string[] = []): Promise<void> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  const registration = await navigator.serviceWorker.ready
+  const loaded = performance.getEntriesByType('resource')
+    .map(entry => entry.name)
+    .filter(url => new URL(url).origin === location.origin && new URL(url).pathname.startsWith('/_next/static/'))
+  registration.active?.postMessage({ type: 'precache', urls: [location.pathname, ...loaded, ...extraUrls] })
+}
+
+export interface PendingSync {
+  taxpayerId: string
+  taxYear: number
+  lastSaved: string
+  // The server revision the saved copy builds on; entries queued before
+  // revisions were tracked have none
+  baseRevision?: number
+  // Set when the server refused the push because another device synced
+  // first. The entry then waits for the client to reload or merge.
+  conflict?: boolean
+}
+
+const pendingSyncKey = (email: string) => `sync_${email}`
+
+// Kept in localStorage so a save made offline is still pushed after the tab
+// is closed and the client signs in again
+export const getPendingSyncs = (email: string): PendingSync[] => {
+  try {
+    return JSON.parse(localStorage.getItem(pendingSyncKey(email)) || '[]')
+  } catch {
+    return []
+  }
+}
+
+const setPendingSyncs = (email: string, entries: PendingSync[]) => {
+  if (entries.length > 0) {
+    localStorage.setItem(pendingSyncKey(email), JSON.stringify(entries))
+  } else {
+    localStorage.removeItem(pendingSyncKey(email))
+  }
+}
+
+export const addPendingSync = (email: string, entry: PendingSync) => {
+  const others = getPendingSyncs(email)
+    .filter(pending => pending.taxpayerId !== entry.taxpayerId || pending.taxYear !== entry.taxYear)
+  setPendingSyncs(email, [...others, entry])
+}
+
+const isSameSave = (a: PendingSync, b: PendingSync): boolean => {
+  return a.taxpayerId === b.taxpayerId && a.taxYear === b.taxYear && a.lastSaved === b.lastSaved
+}
+
+// Only clears the entry if nothing was saved since the sync started
+export const clearPendingSync = (email: string, entry: PendingSync) => {
+  setPendingSyncs(email, getPendingSyncs(email).filter(pending => !isSameSave(pending, entry)))
+}
+
+// Like clearPendingSync, leaves a save made since the sync started alone
+export const markPendingSyncConflict = (email: string, entry: PendingSync) => {
+  setPendingSyncs(email, getPendingSyncs(email).map(pending =>
+    isSameSave(pending, entry) ? { ...pending, conflict: true } : pending))
+}
+
+// The server revision each checklist on this device was last synced at,
+// which its next push builds on
+const syncedRevisionKey = (email: string) => `synced_${email}`
+
+const getSyncedRevisions = (email: string): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(syncedRevisionKey(email)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export const getSyncedRevision = (email: string, taxpayerId: string, taxYear: number): number => {
+  return getSyncedRevisions(email)[`${taxpayerId}:${taxYear}`] || 0
+}
+
+export const setSyncedRevision = (email: string, taxpayerId: string, taxYear: number, revision: number) => {
+  localStorage.setItem(syncedRevisionKey(email), JSON.stringify({
+    ...getSyncedRevisions(email),
+    [`${taxpayerId}:${taxYear}`]: revision
+  }))
+}
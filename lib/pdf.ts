@@ -0,0 +1,27 @@
+// PDF.js ships with the app rather than from a CDN, so PDF conversion works
+// offline. The library is loaded on first use and its worker is emitted as a
+// separate static asset.
+
+import type * as PDFJS from 'pdfjs-dist'
+
+export const pdfWorkerSrc = (): string => {
+  return new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url).toString()
+}
+
+let pdfjs: Promise<typeof PDFJS> | null = null
+
+export const loadPdfJs = (): Promise<typeof PDFJS> => {
+  if (!pdfjs) {
+    pdfjs = import('pdfjs-dist')
+      .then(lib => {
+        lib.GlobalWorkerOptions.workerSrc = pdfWorkerSrc()
+        return lib
+      })
+      .catch(error => {
+        // Let the next upload try again, e.g. once the app is back online
+        pdfjs = null
+        throw error
+      })
+  }
+  return pdfjs
+}
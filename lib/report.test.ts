@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { migrateChecklistData } from '@/lib/migrations'
+import { generateReportHTML } from '@/lib/report'
+import { V5_CHECKLIST_RECORD } from '@/lib/__fixtures__/checklist-records'
+
+const metadata = { timestamp: '2025-03-02T10:00:00.000Z', referenceId: 'TAX-2024-ABC123' }
+const signature = { name: 'Jane Doe', image: '', signedAt: '2025-03-01T10:00:00.000Z', contentHash: 'abc' }
+
+describe('generateReportHTML', () => {
+  it('prints the signing time in UTC', async () => {
+    const data = { ...await migrateChecklistData(V5_CHECKLIST_RECORD.data), signature }
+    expect(generateReportHTML(data, metadata)).toContain('2025-03-01T10:00:00.000Z')
+  })
+
+  it('prints a malformed signing time as stored instead of failing', async () => {
+    const data = {
+      ...await migrateChecklistData(V5_CHECKLIST_RECORD.data),
+      filingJointly: true,
+      signature: { ...signature, signedAt: 'yesterday <b>' },
+      spouseSignature: { ...signature, name: 'John Doe', signedAt: 'not a date' }
+    }
+
+    for (const copy of ['client', 'preparer'] as const) {
+      const html = generateReportHTML(data, metadata, copy)
+      expect(html).toContain('yesterday &lt;b&gt;')
+      expect(html).toContain('not a date')
+    }
+  })
+})
@@ -0,0 +1,668 @@
+// HTML tax organizer report, shared by the client download and the staff dashboard
+
+import type { ChecklistData, Signature, SubmissionMetadata, UploadedFile } from '@/lib/checklist'
+import { maskValue } from '@/lib/audit'
+import { creditFields, creditFieldValue, formatCreditValue } from '@/lib/credits'
+import { incomeFields, incomeFieldValue, incomeFormName, incomeTotals } from '@/lib/income'
+
+// The client copy is safe to keep or share: SSNs and the account number are
+// cut to their last four digits and document images are left out. The
+// preparer copy has full detail and is only meant for sending to the firm.
+export type ReportCopy = 'client' | 'preparer'
+
+// Logo as Base64 SVG
+export const LOGO_BASE64 = 'data:image/svg+xml;base64,PHN2ZyB2aWV3Qm94PSIwIDAgMTAwIDEwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8ZGVmcz4KICAgIDxsaW5lYXJHcmFkaWVudCBpZD0iYm9va0dyYWRpZW50IiB4MT0iMCUiIHkxPSIwJSIgeDI9IjAlIiB5Mj0iMTAwJSI+CiAgICAgIDxzdG9wIG9mZnNldD0iMCUiIHN0b3AtY29sb3I9IiM3QkIyNDEiIC8+CiAgICAgIDxzdG9wIG9mZnNldD0iMTAwJSIgc3RvcC1jb2xvcj0iIzJDM0UyMSIgLz4KICAgIDwvbGluZWFyR3JhZGllbnQ+CiAgPC9kZWZzPgogIDxwYXRoIGQ9Ik0gMjAgMzAgUSAyMCAyNSAyNSAyNSBMIDQ4IDI1IEwgNDggNzUgTCAyNSA3NSBRIDIwIDc1IDIwIDcwIFoiIGZpbGw9InVybCgjYm9va0dyYWRpZW50KSIgLz4KICA8cGF0aCBkPSJNIDUyIDI1IEwgNzUgMjUgUSA4MCAyNSA4MCAzMCBMIDgwIDcwIFEgODAgNzUgNzUgNzUgTCA1MiA3NSBaIiBmaWxsPSJ1cmwoI2Jvb2tHcmFkaWVudCkiIC8+CiAgPGxpbmUgeDE9IjUwIiB5MT0iMjUiIHgyPSI1MCIgeTI9Ijc1IiBzdHJva2U9IiMxRjNBMUYiIHN0cm9rZS13aWR0aD0iMSIgb3BhY2l0eT0iMC4zIiAvPgogIDxwYXRoIGQ9Ik0gMzAgNjAgTCAzNSA1MCBMIDQwIDU1IEwgNDUgNDUgTCA1MCA1MCBMIDU1IDQwIEwgNjAgNDUgTCA2NSAzNSBMIDcwIDQwIiBzdHJva2U9IndoaXRlIiBzdHJva2Utd2lkdGg9IjMiIGZpbGw9Im5vbmUiIHN0cm9rZS1saW5lY2FwPSJyb3VuZCIgc3Ryb2tlLWxpbmVqb2luPSJyb3VuZCIgLz4KICA8cGF0aCBkPSJNIDcwIDQwIEwgNjcgNDMgTSA3MCA0MCBMIDczIDQzIiBzdHJva2U9IndoaXRlIiBzdHJva2Utd2lkdGg9IjMiIGZpbGw9Im5vbmUiIHN0cm9rZS1saW5lY2FwPSJyb3VuZCIgc3Ryb2tlLWxpbmVqb2luPSJyb3VuZCIgLz4KPC9zdmc+'
+
+const escapeHtml = (value: string = ''): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const formatAmount = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+// Signing times come from synced client data, so one that isn't a valid
+// date is printed as stored rather than failing the whole report
+const parseTimestamp = (value: string): Date | null => {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+const formatSignedAt = (signature: Signature | null, fallback: string): string => {
+  if (!signature?.signedAt) return fallback
+  return parseTimestamp(signature.signedAt)?.toLocaleString() || signature.signedAt
+}
+
+const formatSignedAtISO = (signedAt: string): string => parseTimestamp(signedAt)?.toISOString() || signedAt
+
+// The drawing followed by the printed name. Only PNG data URLs are embedded,
+// since the value ends up in an img tag.
+const signatureLineHTML = (signature: Signature | null): string => {
+  if (!signature) return ''
+  const image = /^data:image\/png;base64,[A-Za-z0-9+/=]+$/.test(signature.image)
+    ? `<img src="${signature.image}" alt="Signature" class="signature-image" />`
+    : ''
+  return `${image}<div>${escapeHtml(signature.name)}</div>`
+}
+
+// documentUrls maps content hashes to data URLs for the images in the
+// preparer copy; files without one are listed by name only
+export const generateReportHTML = (
+  data: ChecklistData,
+  metadata: SubmissionMetadata,
+  copy: ReportCopy = 'preparer',
+  documentUrls: Record<string, string> = {}
+): string => {
+  const {
+    filingJointly, clientInfo, spouseInfo, dependents, bankInfo, signature, spouseSignature,
+    documentUploads, incomeData, adjustmentData, creditData, auditLog = [], taxYear
+  } = data
+  const currentDate = new Date().toLocaleDateString()
+  const isClientCopy = copy === 'client'
+  const sensitive = (value: string) => isClientCopy ? maskValue(value) : value
+
+  const dependentsHTML = dependents.map((dep, index) => `
+    <div class="bubble">
+      <h3>Dependent ${index + 1}</h3>
+      <div class="data-row"><span class="label">Name:</span> <span>${escapeHtml(dep.name)}</span></div>
+      <div class="data-row"><span class="label">DOB:</span> <span>${escapeHtml(dep.dob)}</span></div>
+      <div class="data-row"><span class="label">SSN:</span> <span>${escapeHtml(sensitive(dep.ssn))}</span></div>
+      <div class="data-row"><span class="label">Relationship:</span> <span>${escapeHtml(dep.relationship)}</span></div>
+    </div>
+  `).join('')
+
+  const generateDocumentImages = (files: UploadedFile[], title: string) => {
+    if (!files || files.length === 0) return ''
+
+    if (isClientCopy) {
+      return `
+        <div class="document-section">
+          <h4 class="document-title">${escapeHtml(title)}</h4>
+          ${files.map(file => `<p class="document-name">${escapeHtml(file.name)}</p>`).join('')}
+          <p class="document-name">Images are included in the preparer copy only.</p>
+        </div>
+      `
+    }
+    
+    return `
+      <div class="document-section">
+        <h4 class="document-title">${escapeHtml(title)}</h4>
+        ${files.map((file, idx) => `
+          <div class="document-page">
+            <p class="document-name">${escapeHtml(file.name)}</p>
+            ${documentUrls[file.hash] ? `<img src="${escapeHtml(documentUrls[file.hash])}" alt="${escapeHtml(file.name)}" class="document-image" />` : ''}
+          </div>
+        `).join('')}
+      </div>
+    `
+  }
+
+  const step4DocsHTML = `
+    ${documentUploads.clientDL ? generateDocumentImages([documentUploads.clientDL], "Client Driver's License") : ''}
+    ${documentUploads.spouseDL ? generateDocumentImages([documentUploads.spouseDL], "Spouse Driver's License") : ''}
+    ${documentUploads.lastYearTax ? generateDocumentImages([documentUploads.lastYearTax], "Last Year's Tax Return") : ''}
+    ${documentUploads.incomeDocuments.length > 0 ? generateDocumentImages(documentUploads.incomeDocuments, "General Income Documents") : ''}
+    ${documentUploads.irsPin ? generateDocumentImages([documentUploads.irsPin], "IRS PIN Letter") : ''}
+  `
+
+  const incomeHTML = incomeData.length > 0 ? `
+    <div class="bubble full-width">
+      <h3>Income Sources</h3>
+      ${incomeData.map(income => `
+        <div class="income-section">
+          <div class="data-row">
+            <span class="label">✓ ${escapeHtml(income.type)}</span>
+            <span>${income.files.length} document(s)</span>
+          </div>
+          ${income.entries.map((entry, index) => `
+            <div class="income-entry">
+              <div class="data-row"><span class="label">${escapeHtml(incomeFormName(income.type))} ${index + 1}</span></div>
+              ${incomeFields(income.type).map(field => {
+                const value = incomeFieldValue(entry.values, field.key)
+                if (!value) return ''
+                const shown = field.kind === 'amount' ? formatAmount(Number(value)) : field.kind === 'taxId' ? sensitive(value) : value
+                return `<div class="data-row"><span class="label">${field.label}:</span> <span>${escapeHtml(shown)}</span></div>`
+              }).join('')}
+              ${entry.fileHashes.length > 0 ? `
+                <div class="data-row"><span class="label">From:</span> <span>${escapeHtml(
+                  income.files.filter(file => entry.fileHashes.includes(file.hash)).map(file => file.name).join(', ')
+                )}</span></div>
+              ` : ''}
+            </div>
+          `).join('')}
+          ${incomeTotals(income.type, income.entries).map(({ field, total }) => `
+            <div class="data-row income-total"><span class="label">Total ${field.label}:</span> <span>${formatAmount(total)}</span></div>
+          `).join('')}
+          ${generateDocumentImages(income.files, income.type)}
+        </div>
+      `).join('')}
+    </div>
+  ` : ''
+
+  const adjustmentsHTML = adjustmentData.length > 0 ? `
+    <div class="bubble full-width">
+      <h3>Income Adjustments</h3>
+      ${adjustmentData.map(adjustment => `
+        <div class="adjustment-section">
+          <div class="data-row">
+            <span class="label">${escapeHtml(adjustment.type)}:</span> 
+            <span>$${escapeHtml(adjustment.amount)} (${adjustment.files.length} document(s))</span>
+          </div>
+          ${generateDocumentImages(adjustment.files, adjustment.type)}
+        </div>
+      `).join('')}
+    </div>
+  ` : ''
+
+  const creditsHTML = creditData.length > 0 ? `
+    <div class="bubble full-width">
+      <h3>Credits & Deductions</h3>
+      ${creditData.map(credit => `
+        <div class="credit-section">
+          <div class="data-row">
+            <span class="label">✓ ${escapeHtml(credit.type)}</span>
+            <span>${credit.files.length} document(s)</span>
+          </div>
+          ${creditFields(credit.type).map(field => {
+            const value = formatCreditValue(field, creditFieldValue(credit.details, field.key), data)
+            return value ? `
+              <div class="data-row"><span class="label">${field.label}:</span> <span>${escapeHtml(field.kind === 'taxId' ? sensitive(value) : value)}</span></div>
+            ` : ''
+          }).join('')}
+          ${credit.details.notes ? `
+            <div class="data-row"><span class="label">Notes:</span> <span>${escapeHtml(credit.details.notes)}</span></div>
+          ` : ''}
+          ${generateDocumentImages(credit.files, credit.type)}
+        </div>
+      `).join('')}
+    </div>
+  ` : ''
+
+  const auditLogHTML = auditLog.length > 0 ? `
+    <div class="audit-section">
+      <div class="metadata-title">Change Audit Trail</div>
+      <table class="audit-table">
+        <thead>
+          <tr><th>Timestamp</th><th>User</th><th>Action</th><th>Field</th><th>Old Value</th><th>New Value</th></tr>
+        </thead>
+        <tbody>
+          ${auditLog.map(entry => `
+            <tr>
+              <td>${escapeHtml(new Date(entry.timestamp).toLocaleString())}</td>
+              <td>${escapeHtml(entry.actor)}</td>
+              <td>${escapeHtml(entry.action)}</td>
+              <td>${escapeHtml(entry.path)}</td>
+              <td>${escapeHtml(entry.oldValue)}</td>
+              <td>${escapeHtml(entry.newValue)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : ''
+
+  return `
+    <html>
+      <head>
+        <title>Tax Checklist - ${escapeHtml(clientInfo.name)}</title>
+        <style>
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+          
+          body { 
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+            padding: 40px; 
+            color: #333; 
+            background: #f9f9f9; 
+          }
+          
+          .header { 
+            text-align: center; 
+            border-bottom: 3px solid #2C5F2D; 
+            margin-bottom: 30px; 
+            padding-bottom: 15px; 
+          }
+
+          .header-logo {
+            width: 80px;
+            height: 80px;
+            margin: 0 auto 15px;
+          }
+          
+          .header h1 {
+            color: #2C5F2D;
+            margin: 0;
+            font-size: 32px;
+          }
+          
+          .header p {
+            color: #1F3550;
+            margin: 5px 0 0 0;
+            font-size: 18px;
+          }
+          
+          .header .date {
+            color: #666;
+            font-size: 14px;
+            margin-top: 10px;
+          }
+          
+          .grid { 
+            display: grid; 
+            grid-template-columns: 1fr 1fr; 
+            gap: 20px; 
+            margin-bottom: 20px;
+          }
+          
+          .bubble { 
+            background: white; 
+            border: 1px solid #e0e0e0; 
+            border-radius: 12px; 
+            padding: 20px; 
+            box-shadow: 0 2px 8px rgba(0,0,0,0.08);
+            break-inside: avoid;
+            margin-bottom: 20px;
+          }
+          
+          .bubble.full-width {
+            grid-column: 1 / -1;
+          }
+          
+          .bubble h3 { 
+            margin-top: 0; 
+            margin-bottom: 15px;
+            color: #2C5F2D; 
+            font-size: 16px; 
+            text-transform: uppercase; 
+            border-bottom: 2px solid #7BB241;
+            padding-bottom: 8px;
+          }
+          
+          .data-row { 
+            display: flex; 
+            justify-content: space-between; 
+            margin: 8px 0; 
+            font-size: 14px;
+            padding: 5px 0;
+            border-bottom: 1px solid #f5f5f5;
+          }
+          
+          .label { 
+            font-weight: 600; 
+            color: #555; 
+          }
+
+          .document-section {
+            margin: 20px 0;
+            padding: 15px;
+            background: #f9f9f9;
+            border-radius: 8px;
+          }
+
+          .document-title {
+            font-size: 14px;
+            font-weight: 600;
+            color: #2C5F2D;
+            margin-bottom: 15px;
+            padding-bottom: 5px;
+            border-bottom: 1px solid #7BB241;
+          }
+
+          .document-page {
+            background: white;
+            padding: 15px;
+            margin-bottom: 20px;
+            border-radius: 6px;
+            border: 1px solid #e0e0e0;
+            page-break-inside: avoid;
+            page-break-after: always;
+          }
+
+          .document-name {
+            font-size: 12px;
+            color: #666;
+            margin-bottom: 10px;
+            font-weight: 600;
+          }
+
+          .document-image {
+            width: 100%;
+            height: auto;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            display: block;
+          }
+
+          .income-section,
+          .adjustment-section,
+          .credit-section {
+            margin-bottom: 20px;
+          }
+
+          .income-entry {
+            margin: 10px 0 10px 15px;
+            padding-left: 10px;
+            border-left: 3px solid #e8f5e9;
+          }
+
+          .income-total {
+            font-weight: 600;
+          }
+
+          .declaration-page {
+            page-break-before: always;
+            background: white;
+            border: 2px solid #2C5F2D;
+            border-radius: 12px;
+            padding: 40px;
+            margin-top: 40px;
+          }
+
+          .declaration-title {
+            text-align: center;
+            color: #2C5F2D;
+            font-size: 28px;
+            font-weight: bold;
+            margin-bottom: 30px;
+            text-transform: uppercase;
+            border-bottom: 3px solid #7BB241;
+            padding-bottom: 15px;
+          }
+
+          .declaration-text {
+            background: #f9f9f9;
+            border-left: 4px solid #2C5F2D;
+            padding: 20px;
+            margin: 20px 0;
+            font-size: 14px;
+            line-height: 1.8;
+            color: #333;
+          }
+
+          .signature-block {
+            margin: 30px 0;
+            padding: 20px;
+            background: #f0f8f0;
+            border-radius: 8px;
+          }
+
+          .signature-line {
+            font-family: 'Brush Script MT', cursive;
+            font-size: 32px;
+            color: #1F3550;
+            margin: 15px 0;
+            padding: 10px;
+            border-bottom: 2px solid #2C5F2D;
+          }
+
+          .signature-image {
+            display: block;
+            max-width: 360px;
+            max-height: 120px;
+          }
+
+          .metadata-section {
+            margin-top: 40px;
+            padding: 25px;
+            background: linear-gradient(135deg, #f0f8f0 0%, #e8f5e8 100%);
+            border: 2px solid #7BB241;
+            border-radius: 8px;
+          }
+
+          .metadata-title {
+            font-size: 18px;
+            font-weight: bold;
+            color: #2C5F2D;
+            margin-bottom: 15px;
+            text-transform: uppercase;
+          }
+
+          .metadata-item {
+            display: flex;
+            justify-content: space-between;
+            padding: 10px 0;
+            border-bottom: 1px solid #7BB241;
+            font-size: 14px;
+          }
+
+          .metadata-label {
+            font-weight: 600;
+            color: #2C5F2D;
+          }
+
+          .metadata-value {
+            color: #1F3550;
+            font-family: monospace;
+            word-break: break-all;
+          }
+
+          .audit-section {
+            margin-top: 30px;
+            page-break-before: always;
+          }
+
+          .audit-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 11px;
+          }
+
+          .audit-table th,
+          .audit-table td {
+            text-align: left;
+            padding: 6px;
+            border-bottom: 1px solid #e0e0e0;
+            word-break: break-all;
+          }
+
+          .audit-table th {
+            color: #2C5F2D;
+            border-bottom: 2px solid #7BB241;
+          }
+
+          .certification-seal {
+            text-align: center;
+            margin-top: 30px;
+            padding: 20px;
+            background: #2C5F2D;
+            color: white;
+            border-radius: 8px;
+            font-weight: bold;
+          }
+          
+          @media print {
+            body { 
+              background: white; 
+              padding: 20px;
+            }
+            
+            .bubble { 
+              box-shadow: none;
+              page-break-inside: avoid;
+            }
+
+            .document-page {
+              page-break-inside: avoid;
+              page-break-after: always;
+            }
+
+            .declaration-page {
+              page-break-before: always;
+            }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <img src="${LOGO_BASE64}" alt="The Books Solution" class="header-logo" />
+          <h1>The Books Solution</h1>
+          <p>${taxYear} Personal Tax Organizer</p>
+          <div class="date">${isClientCopy ? 'Client Copy – sensitive numbers redacted' : 'Preparer Copy – confidential'}</div>
+          <div class="date">Generated: ${currentDate}</div>
+        </div>
+        
+        <div class="grid">
+          <div class="bubble">
+            <h3>Client Information</h3>
+            <div class="data-row"><span class="label">Name:</span> <span>${escapeHtml(clientInfo.name)}</span></div>
+            <div class="data-row"><span class="label">SSN:</span> <span>${escapeHtml(sensitive(clientInfo.ssn))}</span></div>
+            <div class="data-row"><span class="label">DOB:</span> <span>${escapeHtml(clientInfo.dob)}</span></div>
+            <div class="data-row"><span class="label">Phone:</span> <span>${escapeHtml(clientInfo.phone)}</span></div>
+            <div class="data-row"><span class="label">Email:</span> <span>${escapeHtml(clientInfo.email)}</span></div>
+          </div>
+
+          <div class="bubble">
+            <h3>Address & License</h3>
+            <div class="data-row"><span class="label">Address:</span> <span>${escapeHtml(clientInfo.address)}</span></div>
+            <div class="data-row"><span class="label">DL State:</span> <span>${escapeHtml(clientInfo.dlState)}</span></div>
+            <div class="data-row"><span class="label">DL Number:</span> <span>${escapeHtml(clientInfo.dlNumber)}</span></div>
+          </div>
+
+          ${filingJointly && spouseInfo.name ? `
+            <div class="bubble">
+              <h3>Spouse Information</h3>
+              <div class="data-row"><span class="label">Name:</span> <span>${escapeHtml(spouseInfo.name)}</span></div>
+              <div class="data-row"><span class="label">SSN:</span> <span>${escapeHtml(sensitive(spouseInfo.ssn))}</span></div>
+              <div class="data-row"><span class="label">DOB:</span> <span>${escapeHtml(spouseInfo.dob)}</span></div>
+            </div>
+          ` : ''}
+
+          <div class="bubble">
+            <h3>Bank Information</h3>
+            <div class="data-row"><span class="label">Bank:</span> <span>${escapeHtml(bankInfo.bankName)}</span></div>
+            <div class="data-row"><span class="label">Routing:</span> <span>${escapeHtml(bankInfo.routingNumber)}</span></div>
+            <div class="data-row"><span class="label">Account:</span> <span>${escapeHtml(sensitive(bankInfo.accountNumber))}</span></div>
+          </div>
+
+          ${dependentsHTML}
+        </div>
+
+        <div class="bubble full-width">
+          <h3>Uploaded Documents</h3>
+          ${step4DocsHTML}
+        </div>
+
+        ${incomeHTML}
+        ${adjustmentsHTML}
+        ${creditsHTML}
+
+        <div class="grid">
+          <div class="bubble">
+            <h3>Taxpayer Signature</h3>
+            <div class="data-row"><span class="label">Signature:</span> <span>${escapeHtml(signature?.name)}</span></div>
+            <div class="data-row"><span class="label">Date:</span> <span>${escapeHtml(formatSignedAt(signature, currentDate))}</span></div>
+          </div>
+
+          ${filingJointly && spouseSignature ? `
+            <div class="bubble">
+              <h3>Spouse Signature</h3>
+              <div class="data-row"><span class="label">Signature:</span> <span>${escapeHtml(spouseSignature.name)}</span></div>
+              <div class="data-row"><span class="label">Date:</span> <span>${escapeHtml(formatSignedAt(spouseSignature, currentDate))}</span></div>
+            </div>
+          ` : ''}
+        </div>
+
+        <div class="declaration-page">
+          <h2 class="declaration-title">Official Declaration & Audit Trail</h2>
+          
+          <div class="declaration-text">
+            <p><strong>Legal Declaration:</strong></p>
+            <p style="margin-top: 15px;">
+              I certify under penalty of perjury that the information provided is true, correct, and complete. 
+              I acknowledge this document serves as a binding record of the data I provided to The Books Solution 
+              for tax preparation purposes.
+            </p>
+            <p style="margin-top: 15px;">
+              I understand that any false statements or misrepresentations may subject me to penalties under 
+              applicable federal and state laws.
+            </p>
+          </div>
+
+          <div class="signature-block">
+            <div style="margin-bottom: 10px; font-weight: 600; color: #2C5F2D;">Taxpayer Signature:</div>
+            <div class="signature-line">${signatureLineHTML(signature)}</div>
+            <div style="margin-top: 10px; color: #666; font-size: 12px;">Date: ${escapeHtml(formatSignedAt(signature, currentDate))}</div>
+          </div>
+
+          ${filingJointly && spouseSignature ? `
+            <div class="signature-block">
+              <div style="margin-bottom: 10px; font-weight: 600; color: #2C5F2D;">Spouse Signature:</div>
+              <div class="signature-line">${signatureLineHTML(spouseSignature)}</div>
+              <div style="margin-top: 10px; color: #666; font-size: 12px;">Date: ${escapeHtml(formatSignedAt(spouseSignature, currentDate))}</div>
+            </div>
+          ` : ''}
+
+          <div class="metadata-section">
+            <div class="metadata-title">Submission Metadata</div>
+            <div class="metadata-item">
+              <span class="metadata-label">Submission Timestamp:</span>
+              <span class="metadata-value">${new Date(metadata.timestamp).toLocaleString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit',
+                timeZoneName: 'short'
+              })}</span>
+            </div>
+            <div class="metadata-item">
+              <span class="metadata-label">Reference ID:</span>
+              <span class="metadata-value">${escapeHtml(metadata.referenceId)}</span>
+            </div>
+            <div class="metadata-item">
+              <span class="metadata-label">Client Email:</span>
+              <span class="metadata-value">${escapeHtml(clientInfo.email)}</span>
+            </div>
+            <div class="metadata-item">
+              <span class="metadata-label">Document Version:</span>
+              <span class="metadata-value">${taxYear}-TAX-ORGANIZER-v1.0</span>
+            </div>
+            ${metadata.acknowledgedGaps?.length ? `
+              <div class="metadata-item">
+                <span class="metadata-label">Submitted Without:</span>
+                <span class="metadata-value">${metadata.acknowledgedGaps.map(escapeHtml).join('<br />')}</span>
+              </div>
+            ` : ''}
+            ${signature?.signedAt ? `
+              <div class="metadata-item">
+                <span class="metadata-label">Taxpayer Signed At:</span>
+                <span class="metadata-value">${escapeHtml(formatSignedAtISO(signature.signedAt))}</span>
+              </div>
+              <div class="metadata-item">
+                <span class="metadata-label">Taxpayer Attested Content (SHA-256):</span>
+                <span class="metadata-value">${escapeHtml(signature.contentHash)}</span>
+              </div>
+            ` : ''}
+            ${filingJointly && spouseSignature?.signedAt ? `
+              <div class="metadata-item">
+                <span class="metadata-label">Spouse Signed At:</span>
+                <span class="metadata-value">${escapeHtml(formatSignedAtISO(spouseSignature.signedAt))}</span>
+              </div>
+              <div class="metadata-item">
+                <span class="metadata-label">Spouse Attested Content (SHA-256):</span>
+                <span class="metadata-value">${escapeHtml(spouseSignature.contentHash)}</span>
+              </div>
+            ` : ''}
+          </div>
+
+          ${auditLogHTML}
+
+          <div class="certification-seal">
+            ✓ CERTIFIED TAX DOCUMENT - THE BOOKS SOLUTION
+            <div style="font-size: 12px; margin-top: 10px; font-weight: normal;">
+              This document has been electronically certified and contains a unique reference ID for audit purposes.
+            </div>
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+}
@@ -0,0 +1,55 @@
+// HTTP-only cookie sessions backed by the file store
+
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { saveSession, getSession, deleteSession, sha256Hex, normalizeEmail, SessionRole } from '@/lib/server/store'
+
+export const SESSION_COOKIE = 'tbs_session'
+export const STAFF_SESSION_COOKIE = 'tbs_staff_session'
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const STAFF_SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+const cookieName = (role: SessionRole): string => role === 'staff' ? STAFF_SESSION_COOKIE : SESSION_COOKIE
+
+export const startSession = async (response: NextResponse, email: string, role: SessionRole = 'client'): Promise<void> => {
+  const token = randomBytes(32).toString('base64url')
+  const expiresAt = new Date(Date.now() + (role === 'staff' ? STAFF_SESSION_TTL_MS : SESSION_TTL_MS))
+
+  // Only the token hash is persisted, so a leaked sessions file can't be replayed
+  await saveSession(sha256Hex(token), {
+    email: normalizeEmail(email),
+    role,
+    expiresAt: expiresAt.toISOString()
+  })
+
+  response.cookies.set(cookieName(role), token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt
+  })
+}
+
+export const getSessionEmail = async (request: NextRequest, role: SessionRole = 'client'): Promise<string | null> => {
+  const token = request.cookies.get(cookieName(role))?.value
+  if (!token) return null
+  const session = await getSession(sha256Hex(token))
+  // Sessions created before staff accounts existed carry no role
+  if (!session || (session.role || 'client') !== role) return null
+  return session.email
+}
+
+export const endSession = async (request: NextRequest, response: NextResponse, role: SessionRole = 'client'): Promise<void> => {
+  const token = request.cookies.get(cookieName(role))?.value
+  if (token) {
+    await deleteSession(sha256Hex(token))
+  }
+  response.cookies.set(cookieName(role), '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  })
+}
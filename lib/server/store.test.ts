@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs'
+import { randomBytes } from 'crypto'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import type { AuditEntry } from '@/lib/checklist'
+
+let dataDir: string
+let store: typeof import('@/lib/server/store')
+
+const auditEntry = (id: string): AuditEntry => ({
+  id, timestamp: `2025-03-01T10:00:0${id.length}.000Z`, actor: 'jane@example.com', action: 'update', path: 'clientInfo.name'
+})
+
+const push = (baseRevision: number, name: string, auditLog: AuditEntry[] = []) => {
+  return store.saveChecklist('jane@example.com', 'primary', 2024, baseRevision, {
+    lastSaved: '2025-03-01T10:00:00.000Z',
+    data: { clientInfo: { name }, auditLog }
+  })
+}
+
+beforeAll(async () => {
+  // The store reads its directory when the module loads
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tax-portal-store-'))
+  process.env.TAX_PORTAL_DATA_DIR = dataDir
+  process.env.TAX_PORTAL_DATA_KEY = randomBytes(32).toString('base64')
+  store = await import('@/lib/server/store')
+})
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('saveChecklist', () => {
+  it('accepts one of two pushes built on the same revision and returns the winner to the other', async () => {
+    const [first, second] = await Promise.all([push(0, 'From laptop', [auditEntry('a')]), push(0, 'From phone')])
+
+    expect(first).toEqual({ saved: true, revision: 1 })
+    expect(second).toMatchObject({ saved: false, existing: { revision: 1, data: { clientInfo: { name: 'From laptop' } } } })
+  })
+
+  it('keeps the audit entries the server already holds', async () => {
+    expect(await push(1, 'Edited', [auditEntry('bb')])).toEqual({ saved: true, revision: 2 })
+
+    const saved = await store.getChecklist('jane@example.com', 'primary', 2024)
+    expect(saved?.data.auditLog.map((entry: AuditEntry) => entry.id)).toEqual(['a', 'bb'])
+  })
+})
+
+describe('encryption at rest', () => {
+  it('writes checklists and documents encrypted', async () => {
+    const id = store.checklistId('jane@example.com')
+    const checklistFile = await fs.readFile(path.join(dataDir, 'checklists', `${id}.json`))
+    expect(checklistFile.toString('latin1')).not.toContain('Edited')
+
+    const scan = Buffer.from('%PDF-1.7 SSN 123-45-6789')
+    const hash = store.sha256Hex('scan')
+    await store.saveDocument('jane@example.com', hash, scan)
+    expect((await fs.readFile(path.join(dataDir, 'documents', id, hash))).includes(scan)).toBe(false)
+    expect(await store.getDocument(id, hash)).toEqual(scan)
+  })
+
+  it('still reads documents written before encryption', async () => {
+    const id = store.checklistId('jane@example.com')
+    const hash = store.sha256Hex('legacy scan')
+    await fs.writeFile(path.join(dataDir, 'documents', id, hash), 'plain bytes')
+
+    expect((await store.getDocument(id, hash))?.toString()).toBe('plain bytes')
+  })
+})
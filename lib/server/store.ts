@@ -0,0 +1,329 @@
+// File-backed store for portal accounts, sessions and synced checklists.
+// Everything lives as JSON under TAX_PORTAL_DATA_DIR (default ./data) so the
+// portal runs without a database server. Checklists and documents hold SSNs,
+// bank details and scans, so they are encrypted at rest with the key in
+// TAX_PORTAL_DATA_KEY.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import type { PasswordCredential } from '@/lib/crypto'
+import { mergeAuditLogs } from '@/lib/audit'
+import { LEGACY_TAX_YEAR, PRIMARY_TAXPAYER_ID } from '@/lib/checklist'
+
+export interface StoredUser {
+  email: string
+  credential: PasswordCredential
+  createdAt: string
+}
+
+export type SessionRole = 'client' | 'staff'
+
+export interface StoredSession {
+  email: string
+  role?: SessionRole
+  expiresAt: string
+}
+
+export interface StoredChecklist {
+  email?: string
+  lastSaved: string
+  // Counts the writes the server has accepted. Copies saved before it was
+  // added have none, which counts as 0.
+  revision?: number
+  data: any
+}
+
+export type ChecklistWriteResult =
+  | { saved: true, revision: number }
+  | { saved: false, existing: StoredChecklist }
+
+const DATA_DIR = process.env.TAX_PORTAL_DATA_DIR || path.join(process.cwd(), 'data')
+const USERS_FILE = path.join(DATA_DIR, 'users.json')
+const STAFF_FILE = path.join(DATA_DIR, 'staff.json')
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json')
+const CHECKLIST_DIR = path.join(DATA_DIR, 'checklists')
+const DOCUMENT_DIR = path.join(DATA_DIR, 'documents')
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase()
+
+export const sha256Hex = (value: string): string => {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+// Encrypted files start with this marker, then the IV, the GCM tag and the
+// ciphertext. Files written before encryption have no marker and are read
+// as they are until they are next written.
+const SEALED_MARKER = Buffer.from('TPE1')
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+// 32 random bytes, base64 encoded, e.g. from `openssl rand -base64 32`.
+// Read on every use so a missing key fails the request that needs it, not
+// the whole server.
+const dataKey = (): Buffer => {
+  const key = Buffer.from(process.env.TAX_PORTAL_DATA_KEY || '', 'base64')
+  if (key.length !== 32) {
+    throw new Error('TAX_PORTAL_DATA_KEY must be set to 32 random bytes, base64 encoded')
+  }
+  return key
+}
+
+const seal = (plaintext: Buffer): Buffer => {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', dataKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([SEALED_MARKER, iv, cipher.getAuthTag(), ciphertext])
+}
+
+const unseal = (stored: Buffer): Buffer => {
+  if (!stored.subarray(0, SEALED_MARKER.length).equals(SEALED_MARKER)) return stored
+  const ivStart = SEALED_MARKER.length
+  const tagStart = ivStart + IV_BYTES
+  const decipher = createDecipheriv('aes-256-gcm', dataKey(), stored.subarray(ivStart, tagStart))
+  decipher.setAuthTag(stored.subarray(tagStart, tagStart + TAG_BYTES))
+  return Buffer.concat([decipher.update(stored.subarray(tagStart + TAG_BYTES)), decipher.final()])
+}
+
+const readFileOrNull = async (file: string): Promise<Buffer | null> => {
+  try {
+    return await fs.readFile(file)
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+// Write to a temp file and rename so a crash mid-write never leaves a
+// truncated file behind
+const writeFileAtomic = async (file: string, contents: string | Buffer): Promise<void> => {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, contents, { mode: 0o600 })
+  await fs.rename(tmp, file)
+}
+
+const readJSON = async <T>(file: string, fallback: T): Promise<T> => {
+  const contents = await readFileOrNull(file)
+  return contents ? JSON.parse(contents.toString('utf8')) : fallback
+}
+
+const writeJSON = (file: string, value: unknown): Promise<void> => writeFileAtomic(file, JSON.stringify(value))
+
+const readSealedJSON = async <T>(file: string, fallback: T): Promise<T> => {
+  const contents = await readFileOrNull(file)
+  return contents ? JSON.parse(unseal(contents).toString('utf8')) : fallback
+}
+
+const writeSealedJSON = (file: string, value: unknown): Promise<void> => {
+  return writeFileAtomic(file, seal(Buffer.from(JSON.stringify(value))))
+}
+
+// Serialise read-modify-write cycles on the shared JSON files
+let writeQueue: Promise<unknown> = Promise.resolve()
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(task, task)
+  writeQueue = run.catch(() => undefined)
+  return run
+}
+
+// Client and staff accounts live in separate files so a client can never
+// sign in to the staff dashboard with the same email
+const accountsFile = (role: SessionRole): string => role === 'staff' ? STAFF_FILE : USERS_FILE
+
+export const getUser = async (email: string, role: SessionRole = 'client'): Promise<StoredUser | null> => {
+  const users = await readJSON<Record<string, StoredUser>>(accountsFile(role), {})
+  return users[normalizeEmail(email)] || null
+}
+
+export const createUser = (email: string, credential: PasswordCredential, role: SessionRole = 'client'): Promise<StoredUser | null> => {
+  return withLock(async () => {
+    const users = await readJSON<Record<string, StoredUser>>(accountsFile(role), {})
+    const key = normalizeEmail(email)
+    if (users[key]) return null
+
+    const user: StoredUser = { email: key, credential, createdAt: new Date().toISOString() }
+    users[key] = user
+    await writeJSON(accountsFile(role), users)
+    return user
+  })
+}
+
+export const updateUserCredential = (email: string, credential: PasswordCredential, role: SessionRole = 'client'): Promise<void> => {
+  return withLock(async () => {
+    const users = await readJSON<Record<string, StoredUser>>(accountsFile(role), {})
+    const key = normalizeEmail(email)
+    if (!users[key]) return
+    users[key] = { ...users[key], credential }
+    await writeJSON(accountsFile(role), users)
+  })
+}
+
+export const saveSession = (tokenHash: string, session: StoredSession): Promise<void> => {
+  return withLock(async () => {
+    const sessions = await readJSON<Record<string, StoredSession>>(SESSIONS_FILE, {})
+    const now = Date.now()
+    // Drop expired sessions while we're rewriting the file anyway
+    for (const [hash, existing] of Object.entries(sessions)) {
+      if (new Date(existing.expiresAt).getTime() <= now) delete sessions[hash]
+    }
+    sessions[tokenHash] = session
+    await writeJSON(SESSIONS_FILE, sessions)
+  })
+}
+
+export const getSession = async (tokenHash: string): Promise<StoredSession | null> => {
+  const sessions = await readJSON<Record<string, StoredSession>>(SESSIONS_FILE, {})
+  const session = sessions[tokenHash]
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null
+  return session
+}
+
+export const deleteSession = (tokenHash: string): Promise<void> => {
+  return withLock(async () => {
+    const sessions = await readJSON<Record<string, StoredSession>>(SESSIONS_FILE, {})
+    if (!sessions[tokenHash]) return
+    delete sessions[tokenHash]
+    await writeJSON(SESSIONS_FILE, sessions)
+  })
+}
+
+// Checklists are filed under a hash of the email, which doubles as the
+// client id in staff dashboard URLs. Each file holds every checklist of the
+// account, by taxpayer and then tax year.
+export const checklistId = (email: string): string => sha256Hex(normalizeEmail(email))
+
+const checklistFile = (id: string): string => path.join(CHECKLIST_DIR, `${id}.json`)
+
+interface StoredChecklistFile {
+  email?: string
+  taxpayers: Record<string, Record<string, StoredChecklist>>
+}
+
+export interface StoredChecklistEntry {
+  id: string
+  taxpayerId: string
+  taxYear: number
+  checklist: StoredChecklist
+}
+
+const isHashId = (value: string): boolean => /^[a-f0-9]{64}$/.test(value)
+
+// Older files hold a single checklist, or one per tax year for the account
+// holder only
+const readChecklistFile = async (id: string): Promise<StoredChecklistFile> => {
+  const stored = await readSealedJSON<any>(checklistFile(id), null)
+  if (!stored) return { taxpayers: {} }
+  if (stored.taxpayers) return stored
+  const years = stored.years || { [stored.data?.taxYear || LEGACY_TAX_YEAR]: stored }
+  return { email: stored.email, taxpayers: { [PRIMARY_TAXPAYER_ID]: years } }
+}
+
+const fileEntries = (id: string, file: StoredChecklistFile): StoredChecklistEntry[] => {
+  return Object.entries(file.taxpayers).flatMap(([taxpayerId, years]) =>
+    Object.entries(years).map(([taxYear, checklist]) => ({
+      id,
+      taxpayerId,
+      taxYear: Number(taxYear),
+      checklist: { ...checklist, email: file.email }
+    }))
+  )
+}
+
+export const getChecklist = async (email: string, taxpayerId: string, taxYear: number): Promise<StoredChecklist | null> => {
+  const file = await readChecklistFile(checklistId(email))
+  return file.taxpayers[taxpayerId]?.[taxYear] || null
+}
+
+export const listAccountChecklists = async (email: string): Promise<StoredChecklistEntry[]> => {
+  const id = checklistId(email)
+  return fileEntries(id, await readChecklistFile(id))
+}
+
+export const getChecklistById = async (id: string, taxpayerId: string, taxYear: number): Promise<StoredChecklist | null> => {
+  if (!isHashId(id)) return null
+  const file = await readChecklistFile(id)
+  const checklist = file.taxpayers[taxpayerId]?.[taxYear]
+  return checklist ? { ...checklist, email: file.email } : null
+}
+
+export const listChecklists = async (): Promise<StoredChecklistEntry[]> => {
+  let files: string[]
+  try {
+    files = await fs.readdir(CHECKLIST_DIR)
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return []
+    throw error
+  }
+
+  const entries: StoredChecklistEntry[] = []
+  for (const id of files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length))) {
+    entries.push(...fileEntries(id, await readChecklistFile(id)))
+  }
+  return entries
+}
+
+// Writes a checklist pushed by a device whose copy builds on baseRevision.
+// If another device has written since, nothing is saved and the stored copy
+// is returned instead, so newer work is never replaced. The check, the
+// audit log merge and the write share one lock so two pushes can't
+// interleave.
+export const saveChecklist = (
+  email: string,
+  taxpayerId: string,
+  taxYear: number,
+  baseRevision: number,
+  checklist: { lastSaved: string, data: any }
+): Promise<ChecklistWriteResult> => {
+  return withLock(async (): Promise<ChecklistWriteResult> => {
+    const id = checklistId(email)
+    const file = await readChecklistFile(id)
+    const existing = file.taxpayers[taxpayerId]?.[taxYear]
+    const existingRevision = existing?.revision || 0
+    if (existing && existingRevision !== baseRevision) {
+      return { saved: false, existing }
+    }
+
+    // The audit trail is append-only: a client can add entries but never
+    // drop ones the server already holds
+    const revision = existingRevision + 1
+    const data = { ...checklist.data, auditLog: mergeAuditLogs(existing?.data?.auditLog, checklist.data.auditLog) }
+    await writeSealedJSON(checklistFile(id), {
+      email: normalizeEmail(email),
+      taxpayers: {
+        ...file.taxpayers,
+        [taxpayerId]: {
+          ...file.taxpayers[taxpayerId],
+          [taxYear]: { lastSaved: checklist.lastSaved, revision, data }
+        }
+      }
+    })
+    return { saved: true, revision }
+  })
+}
+
+// Uploaded documents are stored once per client under their SHA-256 content
+// hash, alongside the checklist that references them
+const documentDir = (id: string): string => path.join(DOCUMENT_DIR, id)
+
+export const listDocumentHashes = async (email: string): Promise<string[]> => {
+  try {
+    const files = await fs.readdir(documentDir(checklistId(email)))
+    return files.filter(isHashId)
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return []
+    throw error
+  }
+}
+
+export const getDocument = async (id: string, hash: string): Promise<Buffer | null> => {
+  if (!isHashId(id) || !isHashId(hash)) return null
+  const stored = await readFileOrNull(path.join(documentDir(id), hash))
+  return stored && unseal(stored)
+}
+
+// Content-addressed, so writing the same hash twice is harmless and needs no lock
+export const saveDocument = async (email: string, hash: string, bytes: Buffer): Promise<void> => {
+  if (!isHashId(hash)) throw new Error('Invalid document hash')
+  await writeFileAtomic(path.join(documentDir(checklistId(email)), hash), seal(bytes))
+}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { CHECKLIST_MIGRATIONS, migrateChecklistData } from '@/lib/migrations'
+import { hashAttestation } from '@/lib/signatures'
+import { V5_CHECKLIST_RECORD } from '@/lib/__fixtures__/checklist-records'
+
+// The checklist as version 7 stored it, when signatures were introduced
+const migrateToVersion7 = async (data: any) => {
+  let migrated = data
+  for (let version = data.schemaVersion + 1; version <= 7; version++) {
+    migrated = await CHECKLIST_MIGRATIONS[version](migrated, { legacyDocuments: new Map(), blobs: new Map() })
+  }
+  return { ...migrated, schemaVersion: 7 }
+}
+
+// The hash version 7 signed: the attestation content taken as stored
+const version7Hash = (data: any): string => {
+  const { taxpayerId, taxYear, filingJointly, clientInfo, spouseInfo, dependents, bankInfo, documentUploads, incomeData, adjustmentData, creditData } = data
+  const content = { taxpayerId, taxYear, filingJointly, clientInfo, spouseInfo, dependents, bankInfo, documentUploads, incomeData, adjustmentData, creditData }
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex')
+}
+
+const v7Data = async () => ({
+  ...await migrateToVersion7(V5_CHECKLIST_RECORD.data),
+  creditData: [{ type: 'Mortgage Interest', details: 'First Bank, about $9,000', files: [] }]
+})
+
+describe('hashAttestation', () => {
+  it('gives a checklist signed before migrations 8 and 9 the same hash after them', async () => {
+    const signed = await v7Data()
+    const migrated = await migrateChecklistData(signed)
+
+    expect(migrated.creditData[0].details).toMatchObject({ lender: '', notes: 'First Bank, about $9,000' })
+    expect(await hashAttestation(migrated)).toBe(version7Hash(signed))
+  })
+
+  it('changes once the new fields are filled in', async () => {
+    const signed = await v7Data()
+    const migrated = await migrateChecklistData(signed)
+    const before = await hashAttestation(migrated)
+
+    migrated.creditData = [{ ...migrated.creditData[0], details: { ...migrated.creditData[0].details, lender: 'First Bank' } } as any]
+    expect(await hashAttestation(migrated)).not.toBe(before)
+
+    const withEntry = await migrateChecklistData(signed)
+    withEntry.incomeData[0].entries = [{ id: 'entry-1', values: { payer: 'First Bank' } as any, fileHashes: [] }]
+    expect(await hashAttestation(withEntry)).not.toBe(before)
+  })
+})
@@ -0,0 +1,51 @@
+// Signing ceremony for the Review & Sign step. A signature records the
+// drawing, when it was made and a hash of the checklist content it attests
+// to; editing the checklist afterwards leaves the hash behind, so the
+// signature has to be given again.
+
+import { ChecklistData, CreditDocument, IncomeDocument, Signature } from '@/lib/checklist'
+import { creditFields, creditFieldValue } from '@/lib/credits'
+import { sha256Hex } from '@/lib/crypto'
+
+// Migrations 8 and 9 added credit detail fields and income entries, filled
+// with blanks. Content the client hasn't filled in is hashed in the shape
+// signed before them, so upgrading doesn't void an existing signature.
+const signedIncome = (item: IncomeDocument) => {
+  const { entries, ...rest } = item
+  return entries.length > 0 ? item : rest
+}
+
+const signedCredit = (item: CreditDocument) => {
+  const filled = creditFields(item.type).some(field => creditFieldValue(item.details, field.key))
+  return filled ? item : { ...item, details: item.details.notes }
+}
+
+// Everything the declaration covers. Documents are included by content hash,
+// so the attestation also pins the uploaded files.
+export const attestationContent = (data: ChecklistData) => ({
+  taxpayerId: data.taxpayerId,
+  taxYear: data.taxYear,
+  filingJointly: data.filingJointly,
+  clientInfo: data.clientInfo,
+  spouseInfo: data.spouseInfo,
+  dependents: data.dependents,
+  bankInfo: data.bankInfo,
+  documentUploads: data.documentUploads,
+  incomeData: data.incomeData.map(signedIncome),
+  adjustmentData: data.adjustmentData,
+  creditData: data.creditData.map(signedCredit)
+})
+
+export const hashAttestation = (data: ChecklistData): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(attestationContent(data)))
+  return sha256Hex(bytes.buffer)
+}
+
+export const isSigned = (signature: Signature | null): boolean => {
+  return !!signature?.image && !!signature.signedAt && !!signature.contentHash
+}
+
+// Signed, and for exactly the content given by its hash
+export const isSignatureCurrent = (signature: Signature | null, contentHash: string): boolean => {
+  return isSigned(signature) && signature!.contentHash === contentHash
+}
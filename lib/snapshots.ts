@@ -0,0 +1,70 @@
+// Version history: a copy of the checklist is kept each time a save changes
+// it, so an accidental deletion can be undone
+
+import { ChecklistData, listChecklistFiles } from '@/lib/checklist'
+import { diffForAudit } from '@/lib/audit'
+
+export interface Snapshot {
+  id: string
+  taxpayerId: string
+  taxYear: number
+  savedAt: string
+  data: ChecklistData
+}
+
+// Every recent snapshot is kept, and beyond those the last one of each day
+export const RECENT_SNAPSHOT_LIMIT = 20
+export const DAILY_SNAPSHOT_DAYS = 30
+
+// The parts of a checklist a client edits; a save that only moves between
+// steps or adds audit entries doesn't need a new snapshot
+export const snapshotContent = (data: ChecklistData) => ({
+  filingJointly: data.filingJointly,
+  clientInfo: data.clientInfo,
+  spouseInfo: data.spouseInfo,
+  dependents: data.dependents,
+  bankInfo: data.bankInfo,
+  signature: data.signature,
+  spouseSignature: data.spouseSignature,
+  documentUploads: data.documentUploads,
+  incomeData: data.incomeData,
+  adjustmentData: data.adjustmentData,
+  creditData: data.creditData,
+  userAgreementAccepted: data.userAgreementAccepted
+})
+
+export const isSnapshotNeeded = (latest: Snapshot | undefined, data: ChecklistData): boolean => {
+  return !latest || JSON.stringify(snapshotContent(latest.data)) !== JSON.stringify(snapshotContent(data))
+}
+
+// Ids of the snapshots of one checklist to keep, given newest first
+export const retainedSnapshotIds = (snapshots: Snapshot[], now: Date = new Date()): Set<string> => {
+  const keep = new Set(snapshots.slice(0, RECENT_SNAPSHOT_LIMIT).map(snapshot => snapshot.id))
+  const cutoff = now.getTime() - DAILY_SNAPSHOT_DAYS * 24 * 60 * 60 * 1000
+  const days = new Set<string>()
+  for (const snapshot of snapshots) {
+    const savedAt = new Date(snapshot.savedAt)
+    const day = savedAt.toDateString()
+    if (savedAt.getTime() < cutoff || days.has(day)) continue
+    days.add(day)
+    keep.add(snapshot.id)
+  }
+  return keep
+}
+
+// A short description of what a snapshot changed from the one before it
+export const describeSnapshotChanges = (previous: Snapshot | undefined, snapshot: Snapshot): string[] => {
+  if (!previous) return ['First saved version']
+
+  const fields = new Set<string>()
+  diffForAudit(snapshotContent(previous.data), snapshotContent(snapshot.data), '')
+    .forEach(entry => fields.add(entry.action === 'update' ? entry.path : `${entry.action} ${entry.path}`))
+
+  const changes = Array.from(fields)
+  const before = listChecklistFiles(previous.data).length
+  const after = listChecklistFiles(snapshot.data).length
+  if (before !== after) {
+    changes.push(`Documents: ${before} → ${after}`)
+  }
+  return changes.length > 0 ? changes : ['No field changes']
+}
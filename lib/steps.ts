@@ -0,0 +1,144 @@
+// The wizard's steps, in order. Each has a stable id that is saved with the
+// checklist as the step the client is on, so steps can be added, removed or
+// reordered without breaking saved progress. The page supplies the render
+// function for each; visibility and completion only depend on the checklist
+// data, so the staff dashboard can use them too.
+
+import type { ReactNode } from 'react'
+import { ChecklistData } from '@/lib/checklist'
+import { hasCreditDetails } from '@/lib/credits'
+import { isSigned } from '@/lib/signatures'
+
+export type StepId =
+  | 'welcome'
+  | 'client'
+  | 'spouse'
+  | 'dependents'
+  | 'documents'
+  | 'income'
+  | 'adjustments'
+  | 'credits'
+  | 'bank'
+  | 'review'
+
+export interface StepDefinition {
+  id: StepId
+  title: string
+  // Hidden steps are skipped by navigation and left out of the progress count
+  isVisible: (data: ChecklistData) => boolean
+  isComplete: (data: ChecklistData) => boolean
+}
+
+// How a step is shown in the step list. Validation errors outrank
+// completeness, since a filled-in field can still be wrong.
+export type StepStatus = 'complete' | 'incomplete' | 'error' | 'not-applicable'
+
+export const STEP_STATUS_LABELS: Record<StepStatus, string> = {
+  complete: 'Complete',
+  incomplete: 'Incomplete',
+  error: 'Has errors',
+  'not-applicable': 'Not applicable'
+}
+
+export interface WizardStep extends StepDefinition {
+  render: () => ReactNode
+}
+
+const filled = (...values: string[]): boolean => values.every(value => !!value.trim())
+
+export const STEP_DEFINITIONS: StepDefinition[] = [
+  {
+    id: 'welcome',
+    title: 'Welcome',
+    isVisible: () => true,
+    isComplete: (data) => data.userAgreementAccepted
+  },
+  {
+    id: 'client',
+    title: 'Client Information',
+    isVisible: () => true,
+    isComplete: ({ clientInfo }) => filled(clientInfo.name, clientInfo.dob, clientInfo.ssn, clientInfo.address)
+  },
+  {
+    id: 'spouse',
+    title: 'Spouse Information',
+    isVisible: (data) => data.filingJointly,
+    isComplete: ({ spouseInfo }) => filled(spouseInfo.name, spouseInfo.dob, spouseInfo.ssn)
+  },
+  {
+    id: 'dependents',
+    title: 'Dependents',
+    isVisible: () => true,
+    isComplete: (data) => data.dependents.every(dependent =>
+      filled(dependent.name, dependent.dob, dependent.ssn, dependent.relationship))
+  },
+  {
+    id: 'documents',
+    title: 'Document Uploads',
+    isVisible: () => true,
+    isComplete: ({ documentUploads, filingJointly }) => !!documentUploads.clientDL && (!filingJointly || !!documentUploads.spouseDL)
+  },
+  {
+    id: 'income',
+    title: 'Income Information',
+    isVisible: () => true,
+    isComplete: (data) => data.incomeData.length > 0 && data.incomeData.every(item => item.files.length > 0)
+  },
+  {
+    id: 'adjustments',
+    title: 'Adjustments',
+    isVisible: () => true,
+    isComplete: (data) => data.adjustmentData.every(item => filled(item.amount))
+  },
+  {
+    id: 'credits',
+    title: 'Credits & Deductions',
+    isVisible: () => true,
+    isComplete: (data) => data.creditData.every(item => hasCreditDetails(item.details) || item.files.length > 0)
+  },
+  {
+    id: 'bank',
+    title: 'Bank Information',
+    isVisible: () => true,
+    isComplete: ({ bankInfo }) => filled(bankInfo.bankName, bankInfo.routingNumber, bankInfo.accountNumber)
+  },
+  {
+    id: 'review',
+    title: 'Review & Sign',
+    isVisible: () => true,
+    isComplete: (data) => isSigned(data.signature) && (!data.filingJointly || isSigned(data.spouseSignature))
+  }
+]
+
+export const FIRST_STEP_ID: StepId = 'welcome'
+
+// Checklists saved before steps had ids stored the index into this list
+const LEGACY_STEP_IDS: StepId[] = [
+  'welcome', 'client', 'spouse', 'dependents', 'documents', 'income', 'adjustments', 'credits', 'bank', 'review'
+]
+
+export const parseStepId = (value: unknown): string => {
+  if (typeof value === 'number') return LEGACY_STEP_IDS[value] || FIRST_STEP_ID
+  return typeof value === 'string' && value ? value : FIRST_STEP_ID
+}
+
+export const stepTitle = (id: string): string => {
+  return STEP_DEFINITIONS.find(step => step.id === id)?.title || 'Unknown'
+}
+
+export const visibleSteps = <T extends StepDefinition>(steps: T[], data: ChecklistData): T[] => {
+  return steps.filter(step => step.isVisible(data))
+}
+
+// The step to show for a saved id: the step itself if it applies, else the
+// next one that does. Unknown ids, say from a newer version, start over.
+export const resolveStep = <T extends StepDefinition>(steps: T[], data: ChecklistData, id: string): T => {
+  const start = Math.max(0, steps.findIndex(step => step.id === id))
+  return steps.slice(start).find(step => step.isVisible(data)) || visibleSteps(steps, data)[0]
+}
+
+export const stepStatus = (step: StepDefinition, data: ChecklistData, hasErrors: boolean): StepStatus => {
+  if (!step.isVisible(data)) return 'not-applicable'
+  if (hasErrors) return 'error'
+  return step.isComplete(data) ? 'complete' : 'incomplete'
+}
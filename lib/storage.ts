@@ -0,0 +1,58 @@
+// Browser storage quota checks for the locally saved checklist
+
+import type { UploadedFile } from '@/lib/checklist'
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+// Warn once saved data takes up this share of the origin's quota
+export const STORAGE_WARNING_RATIO = 0.8
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return quota ? { usage, quota } : null
+}
+
+// Ask the browser not to evict our data under storage pressure. Browsers may
+// grant this silently, prompt, or refuse; a refusal is not an error.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false
+  if (await navigator.storage.persisted()) return true
+  return navigator.storage.persist()
+}
+
+export const isStorageNearlyFull = (estimate: StorageEstimate | null): boolean => {
+  return !!estimate && estimate.usage / estimate.quota >= STORAGE_WARNING_RATIO
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message: string = 'Browser storage is full') {
+    super(message)
+    this.name = 'StorageQuotaError'
+  }
+}
+
+export const isQuotaExceededError = (error: unknown): boolean => {
+  if (error instanceof StorageQuotaError) return true
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
+// The biggest distinct documents, as candidates to remove or downscale
+export const largestFiles = (files: UploadedFile[], limit: number = 5): UploadedFile[] => {
+  const byHash = new Map<string, UploadedFile>()
+  files.forEach(file => byHash.set(file.hash, file))
+  return Array.from(byHash.values())
+    .sort((a, b) => b.size - a.size)
+    .slice(0, limit)
+}
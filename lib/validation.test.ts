@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { validateDateOfBirth, validateLicenseDates, validateRoutingNumber, validateTaxId } from '@/lib/validation'
+
+const today = new Date(2025, 3, 15)
+
+describe('validateDateOfBirth', () => {
+  it('accepts a real date', () => {
+    expect(validateDateOfBirth('1980-02-29', today)).toBeNull()
+  })
+
+  it('rejects days that do not exist in the month', () => {
+    expect(validateDateOfBirth('2023-02-31', today)).toBe('Enter a valid date')
+    expect(validateDateOfBirth('1981-02-29', today)).toBe('Enter a valid date')
+    expect(validateDateOfBirth('1990-13-01', today)).toBe('Enter a valid date')
+  })
+})
+
+describe('validateLicenseDates', () => {
+  it('rejects an impossible expiration date', () => {
+    expect(validateLicenseDates('2020-01-01', '2028-04-31', today)).toBe('Enter valid issue and expiration dates')
+  })
+
+  it('checks the order of real dates', () => {
+    expect(validateLicenseDates('2020-01-01', '2019-12-31', today)).toBe('The expiration date must be after the issue date')
+    expect(validateLicenseDates('2020-01-01', '2028-01-01', today)).toBeNull()
+  })
+})
+
+describe('validateTaxId', () => {
+  it('accepts SSNs with or without dashes, and leaves a blank to the completeness check', () => {
+    expect(validateTaxId('123-45-6789')).toBeNull()
+    expect(validateTaxId('123456789')).toBeNull()
+    expect(validateTaxId('')).toBeNull()
+  })
+
+  it('rejects the wrong number of digits', () => {
+    expect(validateTaxId('123-45-678')).toBe('Enter 9 digits as XXX-XX-XXXX')
+    expect(validateTaxId('123-45-67890')).toBe('Enter 9 digits as XXX-XX-XXXX')
+    expect(validateTaxId('12-3456789')).toBe('Enter 9 digits as XXX-XX-XXXX')
+  })
+
+  it('rejects area numbers the SSA never issues', () => {
+    expect(validateTaxId('000-45-6789')).toBe('This is not a valid SSN')
+    expect(validateTaxId('666-45-6789')).toBe('This is not a valid SSN')
+  })
+
+  it('rejects a zero group or serial', () => {
+    expect(validateTaxId('123-00-6789')).toBe('This is not a valid SSN')
+    expect(validateTaxId('123-45-0000')).toBe('This is not a valid SSN')
+  })
+
+  it('accepts 9xx numbers only as ITINs in an issued group', () => {
+    expect(validateTaxId('912-70-1234')).toBeNull()
+    expect(validateTaxId('912-45-1234')).toBe('This is not a valid SSN or ITIN')
+    expect(validateTaxId('912-93-1234')).toBe('This is not a valid SSN or ITIN')
+  })
+})
+
+describe('validateRoutingNumber', () => {
+  it('accepts a number with a valid checksum', () => {
+    expect(validateRoutingNumber('011000015')).toBeNull()
+    expect(validateRoutingNumber('0110-0001-5')).toBeNull()
+  })
+
+  it('rejects a wrong checksum', () => {
+    expect(validateRoutingNumber('011000016')).toBe('This routing number is not valid; check it against a check or your bank')
+  })
+
+  it('rejects the wrong length or letters', () => {
+    expect(validateRoutingNumber('01100001')).toBe('Routing numbers are 9 digits')
+    expect(validateRoutingNumber('0110000155')).toBe('Routing numbers are 9 digits')
+    expect(validateRoutingNumber('01100001A5')).toBe('Routing numbers are 9 digits')
+  })
+})
@@ -0,0 +1,125 @@
+// Field validation for the wizard. Each validator takes the value as typed
+// and returns an error message, or null when the value is acceptable. Empty
+// values pass: whether a field is required is up to the step's completion
+// check, so a half-finished step isn't covered in errors.
+
+import { ChecklistData, ClientInfo } from '@/lib/checklist'
+import { StepId } from '@/lib/steps'
+
+export interface ValidationError {
+  stepId: StepId
+  // Id of the input the error belongs to
+  field: string
+  label: string
+  message: string
+}
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '')
+
+// SSNs and ITINs share the XXX-XX-XXXX shape. ITINs start with 9 and have a
+// group number in one of the ranges the IRS issues.
+export const validateTaxId = (value: string): string | null => {
+  if (!value.trim()) return null
+  if (!/^\d{3}-?\d{2}-?\d{4}$/.test(value.trim())) return 'Enter 9 digits as XXX-XX-XXXX'
+
+  const digits = digitsOf(value)
+  const area = Number(digits.slice(0, 3))
+  const group = Number(digits.slice(3, 5))
+  const serial = Number(digits.slice(5))
+  if (digits[0] === '9') {
+    const isItinGroup = (group >= 50 && group <= 65) || (group >= 70 && group <= 88) ||
+      (group >= 90 && group <= 92) || (group >= 94 && group <= 99)
+    return isItinGroup ? null : 'This is not a valid SSN or ITIN'
+  }
+  if (area === 0 || area === 666 || group === 0 || serial === 0) return 'This is not a valid SSN'
+  return null
+}
+
+// ABA routing numbers carry a weighted checksum over their nine digits
+export const validateRoutingNumber = (value: string): string | null => {
+  if (!value.trim()) return null
+  const digits = digitsOf(value)
+  if (digits.length !== 9 || !/^[\d\s-]+$/.test(value)) return 'Routing numbers are 9 digits'
+
+  const d = digits.split('').map(Number)
+  const checksum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8])
+  return checksum % 10 === 0 ? null : 'This routing number is not valid; check it against a check or your bank'
+}
+
+// Date rolls an impossible day over into the next month, so the parts are
+// compared after construction: 2023-02-31 would otherwise be March 3rd
+const parseDate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+  const [year, month, day] = match.slice(1).map(Number)
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return date
+}
+
+export const validateDateOfBirth = (value: string, today: Date = new Date()): string | null => {
+  if (!value) return null
+  const date = parseDate(value)
+  if (!date) return 'Enter a valid date'
+  if (date > today) return 'Date of birth cannot be in the future'
+  if (today.getFullYear() - date.getFullYear() > 120) return 'Check the year of birth'
+  return null
+}
+
+// Checked on the expiration date, the field the error is shown under
+export const validateLicenseDates = (issueDate: string, expDate: string, today: Date = new Date()): string | null => {
+  const issued = issueDate ? parseDate(issueDate) : null
+  const expires = expDate ? parseDate(expDate) : null
+  if ((issueDate && !issued) || (expDate && !expires)) return 'Enter valid issue and expiration dates'
+  if (issued && issued > today) return 'The issue date cannot be in the future'
+  if (issued && expires && expires <= issued) return 'The expiration date must be after the issue date'
+  return null
+}
+
+export const validateEmail = (value: string): string | null => {
+  if (!value.trim()) return null
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim()) ? null : 'Enter a valid email address'
+}
+
+// US numbers: ten digits, optionally with a leading country code 1
+export const validatePhone = (value: string): string | null => {
+  if (!value.trim()) return null
+  if (!/^[\d\s()+.-]+$/.test(value)) return 'Enter a valid phone number'
+  const digits = digitsOf(value)
+  return digits.length === 10 || (digits.length === 11 && digits[0] === '1') ? null : 'Enter a 10-digit phone number'
+}
+
+const personErrors = (stepId: StepId, prefix: string, who: string, info: ClientInfo): ValidationError[] => {
+  const checks: [string, string, string | null][] = [
+    ['ssn', 'Social Security Number', validateTaxId(info.ssn)],
+    ['dob', 'Date of Birth', validateDateOfBirth(info.dob)],
+    ['email', 'Email', validateEmail(info.email)],
+    ['phone', 'Phone', validatePhone(info.phone)],
+    ['dlExpDate', "Driver's License Dates", validateLicenseDates(info.dlIssueDate, info.dlExpDate)]
+  ]
+  return checks
+    .filter(([, , message]) => message)
+    .map(([field, label, message]) => ({ stepId, field: `${prefix}-${field}`, label: `${who} ${label}`, message: message! }))
+}
+
+// Every validation error in the checklist, in step order. Steps that don't
+// apply, such as the spouse when not filing jointly, aren't checked.
+export const validateChecklist = (data: ChecklistData): ValidationError[] => {
+  const errors = personErrors('client', 'client', 'Your', data.clientInfo)
+  if (data.filingJointly) {
+    errors.push(...personErrors('spouse', 'spouse', "Spouse's", data.spouseInfo))
+  }
+
+  data.dependents.forEach((dependent, index) => {
+    const who = dependent.name || `Dependent ${index + 1}`
+    const ssn = validateTaxId(dependent.ssn)
+    if (ssn) errors.push({ stepId: 'dependents', field: `dependent-${dependent.id}-ssn`, label: `${who}'s Social Security Number`, message: ssn })
+    const dob = validateDateOfBirth(dependent.dob)
+    if (dob) errors.push({ stepId: 'dependents', field: `dependent-${dependent.id}-dob`, label: `${who}'s Date of Birth`, message: dob })
+  })
+
+  const routing = validateRoutingNumber(data.bankInfo.routingNumber)
+  if (routing) errors.push({ stepId: 'bank', field: 'routingNumber', label: 'Routing Number', message: routing })
+
+  return errors
+}
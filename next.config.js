@@ -1,4 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  webpack: (config) => {
+    // pdfjs-dist only uses the node canvas package outside the browser
+    config.resolve.alias.canvas = false
+    return config
+  }
+}
 
 module.exports = nextConfig
@@ -0,0 +1,75 @@
+// Service worker: caches the app shell so the checklist opens and works
+// offline. Checklist data never passes through here; it lives encrypted in
+// IndexedDB, and API requests always go to the network.
+
+const CACHE_NAME = 'tax-checklist-shell-v1'
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Pages ask for what they loaded before the worker controlled them
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'precache' || !Array.isArray(event.data.urls)) return
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => Promise.all(event.data.urls.map(url =>
+      cache.match(url).then(cached => cached || cache.add(url)).catch(() => {})
+    )))
+  )
+})
+
+const cacheResponse = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone()
+    caches.open(CACHE_NAME).then(cache => cache.put(request, copy))
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  // Pages: the network when it answers, else the last copy
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => cacheResponse(request, response))
+        .catch(() => caches.match(request).then(cached => cached || caches.match('/')))
+    )
+    return
+  }
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(cached => cached || fetch(request).then(response => cacheResponse(request, response)))
+    )
+    return
+  }
+
+  // Everything else: the cached copy, refreshed in the background. Offline,
+  // the refresh fails and the cached copy still answers.
+  event.respondWith(
+    caches.match(request).then(cached => {
+      const network = fetch(request)
+        .then(response => cacheResponse(request, response))
+        .catch(() => cached)
+      return cached || network
+    })
+  )
+})